@@ -0,0 +1,144 @@
+import log from "./log.ts";
+import { timingSafeEqual } from "./webhookSignature.ts";
+import type { Job, JobQueue, JobStatus } from "./jobQueue.ts";
+
+// --- Constants ---
+const JOB_ROUTE = /^\/jobs\/([^/]+)$/;
+const REPROCESS_ROUTE = /^\/jobs\/([^/]+)\/reprocess$/;
+const JOB_STATUSES: JobStatus[] = ["queued", "processing", "completed", "dead_letter"];
+const DEFAULT_LIST_LIMIT = 50;
+
+// --- Types ---
+export type AdminApiOptions<TData extends Record<string, unknown>> = {
+  /** Bearer token required on every admin route. The API is disabled when unset. */
+  token: string | undefined;
+  /** Stages skipped when reprocessing with `?skipZoho=true`. */
+  zohoStages: string[];
+  /** Job data set when reprocessing with `?bypassCache=true`, so cached LLM results are not reused. */
+  bypassCacheData: Partial<TData>;
+  /** Loads the large per-job values (transcript, extraction) shown on the detail route. */
+  loadJobDetails: (job: Job<TData>) => Promise<Record<string, unknown>>;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Checks the `Authorization: Bearer <token>` header against the admin token.
+ */
+export function isAuthorized(req: Request, token: string): boolean {
+  const header = req.headers.get("authorization") ?? "";
+  const match = header.match(/^Bearer\s+(.+)$/i);
+  return !!match && timingSafeEqual(match[1].trim(), token);
+}
+
+/**
+ * Decodes a percent-encoded path segment, or returns null when it is malformed (e.g. "%E0").
+ */
+export function decodePathSegment(segment: string): string | null {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Builds a JSON error response.
+ */
+export function errorResponse(status: number, message: string): Response {
+  return Response.json({ error: message }, { status });
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the handler for the authenticated admin routes:
+ * - `GET /jobs?status=&limit=` lists jobs, newest first.
+ * - `GET /jobs/:transcriptionId` shows a job with its stages, timings, errors and details.
+ * - `POST /jobs/:transcriptionId/reprocess[?skipZoho=true][&bypassCache=true]` runs the pipeline again.
+ *
+ * The returned function resolves to null for paths it does not own.
+ */
+export function createAdminApi<TData extends Record<string, unknown>>(
+  jobQueue: JobQueue<TData>,
+  options: AdminApiOptions<TData>
+) {
+  return async (
+    req: Request,
+    requestId: string
+  ): Promise<Response | null> => {
+    const url = new URL(req.url);
+    const path = url.pathname;
+    const jobMatch = path.match(JOB_ROUTE);
+    const reprocessMatch = path.match(REPROCESS_ROUTE);
+
+    if (path !== "/jobs" && !jobMatch && !reprocessMatch) {
+      return null;
+    }
+
+    if (!options.token) {
+      log(`[${requestId}] Admin route requested but ADMIN_API_TOKEN is not configured.`);
+      return errorResponse(503, "Admin API is disabled.");
+    }
+    if (!isAuthorized(req, options.token)) {
+      log(`[${requestId}] ERROR: Unauthorized admin API request to ${path}.`);
+      return errorResponse(401, "Unauthorized");
+    }
+
+    // --- List Jobs ---
+    if (req.method === "GET" && path === "/jobs") {
+      const status = url.searchParams.get("status");
+      if (status && !JOB_STATUSES.includes(status as JobStatus)) {
+        return errorResponse(400, `Unknown status "${status}". Expected one of: ${JOB_STATUSES.join(", ")}`);
+      }
+      const limit = parseInt(url.searchParams.get("limit") || String(DEFAULT_LIST_LIMIT), 10);
+      const jobs = await jobQueue.listJobs(
+        Number.isFinite(limit) && limit > 0 ? limit : DEFAULT_LIST_LIMIT,
+        (status as JobStatus) || undefined
+      );
+      log(`[${requestId}] Admin API listed ${jobs.length} job(s).`);
+      return Response.json({ jobs });
+    }
+
+    // --- Inspect Job ---
+    if (req.method === "GET" && jobMatch) {
+      const transcriptionId = decodePathSegment(jobMatch[1]);
+      if (transcriptionId === null) {
+        return errorResponse(400, "Transcription ID in the path is not correctly URL-encoded.");
+      }
+      const job = await jobQueue.getJobByTranscriptionId(transcriptionId);
+      if (!job) {
+        return errorResponse(404, `No job found for transcription ${transcriptionId}.`);
+      }
+      log(`[${requestId}] Admin API returned job ${job.id} for transcription ${transcriptionId}.`);
+      return Response.json({ ...job, ...(await options.loadJobDetails(job)) });
+    }
+
+    // --- Reprocess Job ---
+    if (req.method === "POST" && reprocessMatch) {
+      const transcriptionId = decodePathSegment(reprocessMatch[1]);
+      if (transcriptionId === null) {
+        return errorResponse(400, "Transcription ID in the path is not correctly URL-encoded.");
+      }
+      const skipZoho = url.searchParams.get("skipZoho") === "true";
+      const bypassCache = url.searchParams.get("bypassCache") === "true";
+      const job = await jobQueue.getJobByTranscriptionId(transcriptionId);
+      if (!job) {
+        return errorResponse(404, `No job found for transcription ${transcriptionId}.`);
+      }
+      if (job.status === "queued" || job.status === "processing") {
+        return errorResponse(409, `Job ${job.id} is still ${job.status}.`);
+      }
+      try {
+        const requeued = await jobQueue.reprocessJob(job.id, skipZoho ? options.zohoStages : [], bypassCache ? options.bypassCacheData : {});
+        log(`[${requestId}] Admin API queued reprocessing of job ${job.id} (skipZoho: ${skipZoho}, bypassCache: ${bypassCache}).`);
+        return Response.json(requeued, { status: 202 });
+      } catch (error) {
+        log(`[${requestId}] CATCH ERROR reprocessing job ${job.id}:`, error instanceof Error ? error.message : String(error));
+        return errorResponse(409, error instanceof Error ? error.message : String(error));
+      }
+    }
+
+    return errorResponse(405, "Method Not Allowed");
+  };
+}
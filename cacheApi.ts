@@ -0,0 +1,57 @@
+import log from "./log.ts";
+import { errorResponse, isAuthorized } from "./adminApi.ts";
+import type { LlmCache } from "./llmCache.ts";
+
+// --- Types ---
+export type CacheApiOptions = {
+  /** Bearer token required on every cache route (the admin token). The API is disabled when unset. */
+  token: string | undefined;
+  cache: LlmCache;
+  /** Kinds of cached results, for validating `?kind=`. */
+  kinds: string[];
+};
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the handler for the authenticated LLM cache routes:
+ * - `GET /llm-cache` counts the cached results per kind.
+ * - `DELETE /llm-cache[?kind=extraction]` invalidates the cached results of a
+ *   kind, or all of them, e.g. after changing a prompt without bumping its version.
+ *
+ * The returned function resolves to null for paths it does not own.
+ */
+export function createCacheApi(options: CacheApiOptions) {
+  return async (
+    req: Request,
+    requestId: string
+  ): Promise<Response | null> => {
+    const url = new URL(req.url);
+    if (url.pathname !== "/llm-cache") {
+      return null;
+    }
+
+    if (!options.token) {
+      log(`[${requestId}] Cache route requested but ADMIN_API_TOKEN is not configured.`);
+      return errorResponse(503, "Cache API is disabled.");
+    }
+    if (!isAuthorized(req, options.token)) {
+      log(`[${requestId}] ERROR: Unauthorized cache API request.`);
+      return errorResponse(401, "Unauthorized");
+    }
+
+    if (req.method === "GET") {
+      return Response.json({ enabled: options.cache.enabled, entries: await options.cache.stats() });
+    }
+    if (req.method === "DELETE") {
+      const kind = url.searchParams.get("kind");
+      if (kind && !options.kinds.includes(kind)) {
+        return errorResponse(400, `Unknown kind "${kind}". Expected one of: ${options.kinds.join(", ")}`);
+      }
+      const deleted = await options.cache.invalidate(kind);
+      log(`[${requestId}] Cache API invalidated ${deleted} ${kind ?? "LLM"} cache entr${deleted === 1 ? "y" : "ies"}.`);
+      return Response.json({ deleted, kind });
+    }
+    return errorResponse(405, "Method Not Allowed");
+  };
+}
@@ -0,0 +1,216 @@
+// --- Constants ---
+const CHARS_PER_TOKEN = 4; // Rough average for English/Spanish text with OpenAI tokenizers
+// A new speaker turn, e.g. "Speaker 1 (00:01:02):", "[00:01:02] Ana:" or "Agente:".
+const SPEAKER_TURN_REGEX = /^\s*(?:\[?\d{1,2}:\d{2}(?::\d{2})?\]?\s*)?[\p{L}][\p{L}\d .'-]{0,40}(?:\s*\(\d{1,2}:\d{2}(?::\d{2})?\))?:\s/u;
+
+// --- Types ---
+export type ChunkOptions = {
+  /** Target size of each chunk, in estimated tokens. */
+  maxChunkTokens: number;
+  /** How much trailing text of the previous chunk is repeated at the start of the next. */
+  overlapTokens: number;
+};
+
+export type FieldConflict = {
+  key: string;
+  /** Every distinct non-null value seen, with the 1-based chunk it came from. */
+  values: { chunk: number; value: unknown }[];
+};
+
+export type MergeResult<T> = {
+  merged: T;
+  /** The 1-based chunk that supplied each non-null merged value. */
+  sources: Partial<Record<keyof T & string, number>>;
+  conflicts: FieldConflict[];
+};
+
+// --- Helper Functions ---
+
+/**
+ * Splits a transcript into segments on speaker turns and blank lines, so chunk
+ * boundaries never fall in the middle of an utterance if it can be avoided.
+ */
+function splitIntoSegments(text: string): string[] {
+  const segments: string[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length > 0) {
+      segments.push(current.join("\n"));
+      current = [];
+    }
+  };
+
+  for (const line of text.split("\n")) {
+    if (line.trim() === "") {
+      flush();
+    } else {
+      if (SPEAKER_TURN_REGEX.test(line)) {
+        flush();
+      }
+      current.push(line);
+    }
+  }
+  flush();
+  return segments;
+}
+
+/**
+ * Hard-splits a single segment that is larger than a chunk, preferring sentence ends.
+ */
+function splitOversizedSegment(segment: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let remaining = segment;
+  while (remaining.length > maxChars) {
+    const window = remaining.slice(0, maxChars);
+    const sentenceEnd = Math.max(
+      window.lastIndexOf(". "),
+      window.lastIndexOf("? "),
+      window.lastIndexOf("! "),
+      window.lastIndexOf("\n")
+    );
+    const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : maxChars;
+    pieces.push(remaining.slice(0, cut).trim());
+    remaining = remaining.slice(cut);
+  }
+  if (remaining.trim()) {
+    pieces.push(remaining.trim());
+  }
+  return pieces;
+}
+
+/**
+ * Normalizes a value for equality checks between chunks ("Costa Rica" == "costa rica ").
+ */
+function comparableValue(value: unknown): string {
+  return typeof value === "string"
+    ? value.trim().toLowerCase().replace(/\s+/g, " ")
+    : JSON.stringify(value);
+}
+
+// --- Exported Functions ---
+
+/**
+ * Estimates the token count of a text without a tokenizer.
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits a transcript into overlapping chunks on speaker/paragraph boundaries.
+ * @param text The full transcript.
+ * @param options Chunk size and overlap, in estimated tokens.
+ * @returns The chunks in transcript order (a single chunk if the text fits).
+ */
+export function splitTranscriptIntoChunks(
+  text: string,
+  options: ChunkOptions
+): string[] {
+  if (options.maxChunkTokens <= 0) {
+    throw new Error("maxChunkTokens must be greater than 0.");
+  }
+  if (options.overlapTokens < 0 || options.overlapTokens >= options.maxChunkTokens) {
+    throw new Error("overlapTokens must be between 0 and maxChunkTokens.");
+  }
+
+  const maxChars = options.maxChunkTokens * CHARS_PER_TOKEN;
+  const overlapChars = options.overlapTokens * CHARS_PER_TOKEN;
+  const segments = splitIntoSegments(text).flatMap((segment) =>
+    segment.length > maxChars ? splitOversizedSegment(segment, maxChars) : [segment]
+  );
+
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  let currentHasNewText = false;
+
+  for (const segment of segments) {
+    if (currentLength + segment.length > maxChars && currentHasNewText) {
+      chunks.push(current.join("\n\n"));
+
+      // Carry trailing segments over as context for the next chunk.
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length > overlapChars) {
+          break;
+        }
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length;
+      }
+      current = overlap;
+      currentLength = overlapLength;
+      currentHasNewText = false;
+    }
+    current.push(segment);
+    currentLength += segment.length;
+    currentHasNewText = true;
+  }
+  if (currentHasNewText) {
+    chunks.push(current.join("\n\n"));
+  }
+  return chunks;
+}
+
+/**
+ * Merges partial extractions from consecutive chunks into one result.
+ *
+ * For each key the value from the latest chunk that mentions it wins (a later
+ * mention of the move date overrides an earlier one), except for `concatKeys`,
+ * whose distinct values are joined in chunk order. Keys where chunks disagreed
+ * are reported as conflicts.
+ * @param partials One partial extraction per chunk (null for chunks that failed).
+ * @param concatKeys Free-text keys whose values should be combined, not replaced.
+ */
+export function mergeChunkExtractions<T extends object>(
+  partials: (T | null)[],
+  concatKeys: (keyof T & string)[] = []
+): MergeResult<T> {
+  const merged: Record<string, unknown> = {};
+  const sources: Record<string, number> = {};
+  const conflicts: FieldConflict[] = [];
+  const keys = new Set<string>();
+  for (const partial of partials) {
+    Object.keys(partial ?? {}).forEach((key) => keys.add(key));
+  }
+
+  for (const key of keys) {
+    const distinct: { chunk: number; value: unknown }[] = [];
+    let latest: { chunk: number; value: unknown } | null = null;
+    for (let index = 0; index < partials.length; index++) {
+      const value = (partials[index] as Record<string, unknown> | null)?.[key];
+      if (value === null || value === undefined) {
+        continue;
+      }
+      latest = { chunk: index + 1, value };
+      if (!distinct.some((seen) => comparableValue(seen.value) === comparableValue(value))) {
+        distinct.push(latest);
+      }
+    }
+
+    if (!latest) {
+      merged[key] = null;
+      continue;
+    }
+
+    if ((concatKeys as string[]).includes(key)) {
+      merged[key] = distinct.map((entry) => String(entry.value)).join("\n");
+      sources[key] = distinct[distinct.length - 1].chunk;
+      continue;
+    }
+
+    // Chunks are in transcript order, so the last non-null value is the latest mention.
+    merged[key] = latest.value;
+    sources[key] = latest.chunk;
+    if (distinct.length > 1) {
+      conflicts.push({ key, values: distinct });
+    }
+  }
+
+  return {
+    merged: merged as unknown as T,
+    sources: sources as MergeResult<T>["sources"],
+    conflicts,
+  };
+}
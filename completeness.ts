@@ -0,0 +1,285 @@
+import type { NormalizedValue } from "./normalization.ts";
+
+// --- Types ---
+
+/**
+ * Makes a rule apply only when another field equals a value or contains one of
+ * several phrases (case- and accent-insensitive).
+ */
+export type RuleCondition = {
+  field: string;
+  equals?: string | number | boolean;
+  contains?: string[];
+};
+
+export type CompletenessRule = {
+  /** The rule is satisfied when any of these fields has a value. */
+  fields: string[];
+  when?: RuleCondition;
+  /** The follow-up question, per language code. */
+  questions: Record<string, string>;
+};
+
+export type MessageTemplate = {
+  emailSubject: string;
+  /** "{name}" is replaced by the customer's first name. */
+  greeting: string;
+  greetingWithoutName: string;
+  intro: string;
+  closing: string;
+};
+
+export type CompletenessRules = {
+  defaultLanguage: string;
+  templates: Record<string, MessageTemplate>;
+  rules: CompletenessRule[];
+};
+
+export type MissingInformation = {
+  /** The rule's fields; any one of them would satisfy it. */
+  fields: string[];
+  /** "invalid" when a value exists but could not be normalized (e.g. an unknown country). */
+  reason: "missing" | "invalid";
+  question: string;
+};
+
+export type FollowUpDraft = {
+  language: string;
+  email: { subject: string; body: string };
+  whatsapp: string;
+};
+
+export type CompletenessReport = {
+  complete: boolean;
+  missing: MissingInformation[];
+  /** Null when nothing is missing. */
+  draft: FollowUpDraft | null;
+};
+
+// --- Constants ---
+// Frequent function words used to guess the language when the model did not report it.
+const LANGUAGE_HINTS: Record<string, string[]> = {
+  es: ["el", "la", "los", "las", "que", "de", "y", "para", "con", "una", "por", "es", "mudanza", "gracias"],
+  en: ["the", "and", "to", "of", "you", "is", "for", "with", "that", "we", "move", "thanks", "thank"],
+};
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases and strips accents for condition matching.
+ */
+function simplify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Whether a value counts as provided (false is an answer; null and blanks are not).
+ */
+function hasValue(value: unknown): boolean {
+  return value !== null && value !== undefined && !(typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Whether a present value failed normalization.
+ */
+function isInvalid(normalized: NormalizedValue | undefined): boolean {
+  switch (normalized?.kind) {
+    case "phone":
+      return !normalized.valid;
+    case "country":
+      return normalized.code === null;
+    case "date":
+      return normalized.start === null;
+    case "postalCode":
+      return normalized.valid === false;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks a rule's condition against the extracted values.
+ */
+function conditionHolds(condition: RuleCondition | undefined, values: Record<string, unknown>): boolean {
+  if (!condition) {
+    return true;
+  }
+  const value = values[condition.field];
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.contains) {
+    if (typeof value !== "string") {
+      return false;
+    }
+    const text = simplify(value);
+    return condition.contains.some((phrase) => text.includes(simplify(phrase)));
+  }
+  return true;
+}
+
+/**
+ * Validates the parsed rules file, collecting every problem found.
+ */
+function validateRulesFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Rules file must contain a JSON object."];
+  }
+  const errors: string[] = [];
+  const { defaultLanguage, templates, rules } = raw as Partial<CompletenessRules>;
+  if (typeof templates !== "object" || templates === null) {
+    return [`"templates" must be an object keyed by language code.`];
+  }
+  const languages = Object.keys(templates);
+  if (typeof defaultLanguage !== "string" || !languages.includes(defaultLanguage)) {
+    errors.push(`"defaultLanguage" must be one of the template languages (${languages.join(", ")}).`);
+  }
+  for (const [language, template] of Object.entries(templates)) {
+    for (const property of ["emailSubject", "greeting", "greetingWithoutName", "intro", "closing"] as const) {
+      if (typeof template?.[property] !== "string") {
+        errors.push(`templates.${language}: "${property}" is required.`);
+      }
+    }
+  }
+  if (!Array.isArray(rules) || rules.length === 0) {
+    errors.push(`"rules" must be a non-empty array.`);
+    return errors;
+  }
+  rules.forEach((rule, index) => {
+    if (!Array.isArray(rule?.fields) || rule.fields.length === 0) {
+      errors.push(`rules[${index}]: "fields" must be a non-empty array.`);
+    }
+    if (rule?.when && typeof rule.when.field !== "string") {
+      errors.push(`rules[${index}]: "when.field" is required.`);
+    }
+    const missingLanguages = languages.filter((language) => typeof rule?.questions?.[language] !== "string");
+    if (missingLanguages.length > 0) {
+      errors.push(`rules[${index}]: missing question(s) for ${missingLanguages.join(", ")}.`);
+    }
+  });
+  return errors;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the completeness rules file.
+ * @param path Path to the JSON rules file.
+ */
+export async function loadCompletenessRules(path: string): Promise<CompletenessRules> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read completeness rules "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validateRulesFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid completeness rules "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return raw as CompletenessRules;
+}
+
+/**
+ * Guesses whether a transcript is in Spanish or English by counting frequent words.
+ */
+export function detectLanguage(text: string): string {
+  const counts = Object.fromEntries(Object.keys(LANGUAGE_HINTS).map((language) => [language, 0]));
+  for (const word of simplify(text).match(/[a-z]+/g) ?? []) {
+    for (const [language, hints] of Object.entries(LANGUAGE_HINTS)) {
+      if (hints.includes(word)) {
+        counts[language]++;
+      }
+    }
+  }
+  return Object.entries(counts).sort((a, b) => b[1] - a[1])[0][0];
+}
+
+/**
+ * Picks the template language for a customer: the requested one if there is a
+ * template for it (matching "es-CR" to "es"), otherwise the default.
+ */
+export function resolveLanguage(requested: string | null, rules: CompletenessRules): string {
+  const code = requested?.trim().toLowerCase().slice(0, 2);
+  return code && rules.templates[code] ? code : rules.defaultLanguage;
+}
+
+/**
+ * Lists the information still needed for a quote, in rule order.
+ * @param values Extracted (and computed) values by key.
+ * @param normalized Normalization results by key; invalid values are reported as such.
+ * @param rules The completeness rules.
+ * @param language Language of the questions.
+ */
+export function findMissingInformation(
+  values: Record<string, unknown>,
+  normalized: Record<string, NormalizedValue>,
+  rules: CompletenessRules,
+  language: string
+): MissingInformation[] {
+  const missing: MissingInformation[] = [];
+  for (const rule of rules.rules) {
+    if (!conditionHolds(rule.when, values)) {
+      continue;
+    }
+    const present = rule.fields.filter((field) => hasValue(values[field]));
+    const question = rule.questions[language] ?? rule.questions[rules.defaultLanguage];
+    if (present.length === 0) {
+      missing.push({ fields: rule.fields, reason: "missing", question });
+    } else if (present.every((field) => isInvalid(normalized[field]))) {
+      missing.push({ fields: rule.fields, reason: "invalid", question });
+    }
+  }
+  return missing;
+}
+
+/**
+ * Writes the follow-up email and WhatsApp message asking exactly the missing questions.
+ * @param missing The missing information, in the order to ask.
+ * @param language Template language.
+ * @param customerName The customer's full name, if known.
+ * @param rules The completeness rules.
+ */
+export function draftFollowUp(
+  missing: MissingInformation[],
+  language: string,
+  customerName: string | null,
+  rules: CompletenessRules
+): FollowUpDraft {
+  const template = rules.templates[language] ?? rules.templates[rules.defaultLanguage];
+  const firstName = customerName?.trim().split(/\s+/)[0];
+  const greeting = firstName ? template.greeting.replace("{name}", firstName) : template.greetingWithoutName;
+  const questions = missing.map((entry, index) => `${index + 1}. ${entry.question}`).join("\n");
+  return {
+    language,
+    email: {
+      subject: template.emailSubject,
+      body: `${greeting}\n\n${template.intro}\n\n${questions}\n\n${template.closing}`,
+    },
+    // WhatsApp: same questions, no subject and a single-line intro.
+    whatsapp: `${greeting} ${template.intro}\n${questions}\n${template.closing.split("\n")[0]}`,
+  };
+}
+
+/**
+ * Checks a request for completeness and drafts the follow-up when something is missing.
+ */
+export function assessCompleteness(
+  values: Record<string, unknown>,
+  normalized: Record<string, NormalizedValue>,
+  rules: CompletenessRules,
+  options: { language: string; customerName: string | null }
+): CompletenessReport {
+  const missing = findMissingInformation(values, normalized, rules, options.language);
+  return {
+    complete: missing.length === 0,
+    missing,
+    draft: missing.length > 0 ? draftFollowUp(missing, options.language, options.customerName, rules) : null,
+  };
+}
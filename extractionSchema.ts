@@ -0,0 +1,270 @@
+import type { NormalizationRule, NormalizerKind } from "./normalization.ts";
+import type { LeadFieldMapping } from "./zohoLeadSync.ts";
+import type { FieldSpec, ObjectSchema, ValueKind } from "./schemaValidator.ts";
+
+// --- Constants ---
+const VALUE_KINDS: ValueKind[] = ["string", "number", "boolean"];
+const MERGE_STRATEGIES = ["latest", "concat"] as const;
+const NORMALIZERS: NormalizerKind[] = ["phone", "country", "date", "postalCode"];
+
+// --- Types ---
+export type FieldValue = string | number | boolean | null;
+
+export type ExtractionField = {
+  key: string;
+  /** One kind or a list of accepted kinds; every field also accepts null unless `nullable` is false. */
+  type: ValueKind | ValueKind[];
+  /** Hint for the model describing what to extract. */
+  description: string;
+  /** Label shown in the Zoho note. */
+  label: string;
+  /** Id of the note section the field is rendered in. */
+  section: string;
+  nullable?: boolean;
+  /** Zoho Lead API field name this value is written to, if any (standard or custom field; "Full_Name" fills First_Name and Last_Name). */
+  zohoField?: string;
+  /** Only render the field when this boolean field is true. */
+  showIf?: string;
+  /** Render the value on its own lines below the label. */
+  multiline?: boolean;
+  /** How values from transcript chunks are combined: the latest mention wins (default) or distinct values are joined. */
+  mergeStrategy?: (typeof MERGE_STRATEGIES)[number];
+  /** Normalizer applied after extraction; the raw value is kept alongside the result. */
+  normalize?: NormalizerKind;
+  /** Country field used as a hint when normalizing a phone number or postal code. */
+  countryField?: string;
+};
+
+export type ExtractionSection = {
+  id: string;
+  title: string;
+};
+
+export type ExtractionSchema = {
+  sections: ExtractionSection[];
+  fields: ExtractionField[];
+};
+
+// --- Helper Functions ---
+
+/**
+ * Returns the accepted kinds of a field as a list.
+ */
+function fieldKinds(field: ExtractionField): ValueKind[] {
+  return Array.isArray(field.type) ? field.type : [field.type];
+}
+
+/**
+ * Formats a value for the note: booleans in Spanish, null as N/A.
+ */
+function formatValue(value: FieldValue | undefined): string {
+  if (value === null || value === undefined) {
+    return "N/A";
+  }
+  if (typeof value === "boolean") {
+    return value ? "Sí" : "No";
+  }
+  return String(value);
+}
+
+/**
+ * Validates the parsed schema file, collecting every problem found.
+ */
+function validateSchemaFile(raw: unknown): string[] {
+  const errors: string[] = [];
+  if (typeof raw !== "object" || raw === null) {
+    return ["Schema file must contain a JSON object."];
+  }
+  const { sections, fields } = raw as Partial<ExtractionSchema>;
+  if (!Array.isArray(sections) || sections.length === 0) {
+    errors.push(`"sections" must be a non-empty array.`);
+  }
+  if (!Array.isArray(fields) || fields.length === 0) {
+    errors.push(`"fields" must be a non-empty array.`);
+    return errors;
+  }
+
+  const sectionIds = new Set((sections ?? []).map((section) => section?.id));
+  const seenKeys = new Set<string>();
+  fields.forEach((field, index) => {
+    const where = `fields[${index}]${field?.key ? ` ("${field.key}")` : ""}`;
+    if (typeof field?.key !== "string" || !/^[a-z][a-z0-9_]*$/.test(field.key)) {
+      errors.push(`${where}: "key" must be a snake_case string.`);
+    } else if (seenKeys.has(field.key)) {
+      errors.push(`${where}: duplicate key.`);
+    } else {
+      seenKeys.add(field.key);
+    }
+    const kinds = Array.isArray(field?.type) ? field.type : [field?.type];
+    if (kinds.length === 0 || kinds.some((kind) => !VALUE_KINDS.includes(kind as ValueKind))) {
+      errors.push(`${where}: "type" must be one or more of ${VALUE_KINDS.join(", ")}.`);
+    }
+    for (const property of ["description", "label", "section"] as const) {
+      if (typeof field?.[property] !== "string" || !field[property].trim()) {
+        errors.push(`${where}: "${property}" is required.`);
+      }
+    }
+    if (field?.section && !sectionIds.has(field.section)) {
+      errors.push(`${where}: unknown section "${field.section}".`);
+    }
+    if (field?.mergeStrategy && !MERGE_STRATEGIES.includes(field.mergeStrategy)) {
+      errors.push(`${where}: "mergeStrategy" must be one of ${MERGE_STRATEGIES.join(", ")}.`);
+    }
+    if (field?.zohoField !== undefined && (typeof field.zohoField !== "string" || !/^[A-Za-z][A-Za-z0-9_]*$/.test(field.zohoField))) {
+      errors.push(`${where}: "zohoField" must be a Zoho API field name.`);
+    } else if (field?.zohoField && fields.some((other, otherIndex) => otherIndex < index && other?.zohoField === field.zohoField)) {
+      errors.push(`${where}: "zohoField" ${field.zohoField} is already mapped by another field.`);
+    }
+    if (field?.normalize && !NORMALIZERS.includes(field.normalize)) {
+      errors.push(`${where}: "normalize" must be one of ${NORMALIZERS.join(", ")}.`);
+    }
+  });
+
+  for (const field of fields) {
+    if (field?.showIf) {
+      const target = fields.find((candidate) => candidate?.key === field.showIf);
+      if (!target || !fieldKinds(target).includes("boolean")) {
+        errors.push(`Field "${field.key}": "showIf" must name a boolean field.`);
+      }
+    }
+    if (field?.countryField) {
+      const target = fields.find((candidate) => candidate?.key === field.countryField);
+      if (!target || target.normalize !== "country") {
+        errors.push(`Field "${field.key}": "countryField" must name a field normalized as a country.`);
+      }
+    }
+  }
+  return errors;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the extraction schema file.
+ * @param path Path to the JSON schema file.
+ * @param requiredFields Fields the pipeline code reads directly, with the kinds it expects.
+ */
+export async function loadExtractionSchema(
+  path: string,
+  requiredFields: Record<string, ValueKind[]> = {}
+): Promise<ExtractionSchema> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read extraction schema "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+
+  const errors = validateSchemaFile(raw);
+  const schema = raw as ExtractionSchema;
+  if (errors.length === 0) {
+    for (const [key, kinds] of Object.entries(requiredFields)) {
+      const field = schema.fields.find((candidate) => candidate.key === key);
+      if (!field) {
+        errors.push(`Required field "${key}" is missing.`);
+      } else if (kinds.some((kind) => !fieldKinds(field).includes(kind))) {
+        errors.push(`Required field "${key}" must accept ${kinds.join(", ")}.`);
+      }
+    }
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid extraction schema "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return schema;
+}
+
+/**
+ * Builds the runtime validator spec for the schema's fields.
+ */
+export function toObjectSchema(schema: ExtractionSchema): ObjectSchema {
+  return Object.fromEntries(
+    schema.fields.map((field): [string, FieldSpec] => [
+      field.key,
+      { kinds: fieldKinds(field), nullable: field.nullable ?? true },
+    ])
+  );
+}
+
+/**
+ * Builds the JSON skeleton and per-field hints shown to the model.
+ */
+export function buildPromptStructure(schema: ExtractionSchema): string {
+  const skeleton = schema.fields
+    .map((field) => {
+      const kinds = [...fieldKinds(field), ...((field.nullable ?? true) ? ["null"] : [])];
+      return `  "${field.key}": "${kinds.join(" | ")}"`;
+    })
+    .join(",\n");
+  const hints = schema.fields
+    .map((field) => `- ${field.key}: ${field.description}`)
+    .join("\n");
+  return `{\n${skeleton}\n}\n\nField hints:\n${hints}`;
+}
+
+/**
+ * Returns the keys whose chunk values are concatenated instead of replaced.
+ */
+export function concatMergeKeys(schema: ExtractionSchema): string[] {
+  return schema.fields
+    .filter((field) => field.mergeStrategy === "concat")
+    .map((field) => field.key);
+}
+
+/**
+ * Returns the normalization rules of the fields that declare a normalizer.
+ */
+export function normalizationRules(schema: ExtractionSchema): NormalizationRule[] {
+  return schema.fields.flatMap((field) =>
+    field.normalize ? [{ key: field.key, normalize: field.normalize, countryField: field.countryField }] : []
+  );
+}
+
+/**
+ * Returns the extracted keys that are written to Zoho Lead fields.
+ */
+export function zohoFieldMappings(schema: ExtractionSchema): LeadFieldMapping[] {
+  return schema.fields.flatMap((field) => (field.zohoField ? [{ key: field.key, zohoField: field.zohoField }] : []));
+}
+
+/**
+ * Returns the display label of a field, falling back to its key.
+ */
+export function fieldLabel(schema: ExtractionSchema, key: string): string {
+  return schema.fields.find((field) => field.key === key)?.label ?? key;
+}
+
+/**
+ * Renders extracted values as note text, grouped by section in schema order.
+ * Fields whose `showIf` field is not true are omitted, as are empty sections.
+ * @param schema The extraction schema.
+ * @param values The extracted values.
+ * @param annotate Optional suffix per field (e.g. a low-confidence flag).
+ */
+export function renderFields(
+  schema: ExtractionSchema,
+  values: Record<string, FieldValue>,
+  annotate: (key: string) => string = () => ""
+): string {
+  const blocks: string[] = [];
+  for (const section of schema.sections) {
+    const lines: string[] = [];
+    for (const field of schema.fields.filter((candidate) => candidate.section === section.id)) {
+      if (field.showIf && values[field.showIf] !== true) {
+        continue;
+      }
+      const value = formatValue(values[field.key]);
+      lines.push(
+        field.multiline
+          ? `${field.label}:${annotate(field.key)}\n${value}`
+          : `${field.label}: ${value}${annotate(field.key)}`
+      );
+    }
+    if (lines.length > 0) {
+      blocks.push(`-- ${section.title} --\n${lines.join("\n")}`);
+    }
+  }
+  return blocks.join("\n\n");
+}
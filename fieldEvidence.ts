@@ -0,0 +1,177 @@
+import type { QuoteLocation } from "./transcriptModel.ts";
+
+// --- Types ---
+
+/**
+ * Evidence for one extracted field as returned by the model.
+ */
+export type RawFieldEvidence = {
+  confidence: number;
+  quote: string | null;
+};
+
+/**
+ * Evidence after checking the quote against the transcript.
+ */
+export type FieldEvidence = RawFieldEvidence & {
+  /** True when the quote occurs in the transcript (ignoring case, whitespace and quote marks). */
+  quoteVerified: boolean;
+  /** When and by whom the quote was said, for transcripts with timestamps. */
+  location?: QuoteLocation | null;
+};
+
+export type UnwrappedEvidence = {
+  /** The bare field values, ready for schema validation. */
+  values: unknown;
+  evidence: Record<string, RawFieldEvidence>;
+  errors: string[];
+  coercions: string[];
+};
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases, strips quote marks and collapses whitespace so formatting
+ * differences don't hide a verbatim quote.
+ */
+function normalizeForMatch(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/["“”«»'‘’`]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parses a confidence value: a number in [0, 1], a percentage (0-100) or a
+ * numeric string such as "0.8" or "80%".
+ */
+function parseConfidence(value: unknown): number | null {
+  let numeric: number | null = null;
+  if (typeof value === "number") {
+    numeric = value;
+  } else if (typeof value === "string") {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)\s*(%)?$/);
+    if (match) {
+      numeric = parseFloat(match[1]) / (match[2] ? 100 : 1);
+    }
+  }
+  if (numeric === null || !Number.isFinite(numeric) || numeric < 0) {
+    return null;
+  }
+  if (numeric > 1 && numeric <= 100) {
+    numeric = numeric / 100;
+  }
+  return numeric <= 1 ? numeric : null;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Splits a model response shaped as `{ key: { value, confidence, quote } }` into
+ * bare values and per-field evidence. A bare value instead of a wrapper object is
+ * accepted with confidence 0 and no quote, so it is flagged rather than rejected.
+ * @param input The parsed model response.
+ * @param keys The expected field keys.
+ */
+export function unwrapEvidenceResponse(
+  input: unknown,
+  keys: string[]
+): UnwrappedEvidence {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { values: input, evidence: {}, errors: [], coercions: [] };
+  }
+
+  const source = input as Record<string, unknown>;
+  const values: Record<string, unknown> = {};
+  const evidence: Record<string, RawFieldEvidence> = {};
+  const errors: string[] = [];
+  const coercions: string[] = [];
+
+  for (const key of keys) {
+    if (!(key in source)) {
+      continue; // Reported as a missing key by the schema validator.
+    }
+    const entry = source[key];
+    const isWrapper =
+      typeof entry === "object" && entry !== null && !Array.isArray(entry) && "value" in entry;
+    if (!isWrapper) {
+      values[key] = entry;
+      evidence[key] = { confidence: 0, quote: null };
+      coercions.push(`"${key}": bare value without confidence/quote (confidence set to 0)`);
+      continue;
+    }
+
+    const wrapper = entry as Record<string, unknown>;
+    values[key] = wrapper.value;
+
+    const confidence = parseConfidence(wrapper.confidence);
+    if (confidence === null) {
+      errors.push(`"${key}.confidence": expected a number between 0 and 1, got ${JSON.stringify(wrapper.confidence)}`);
+    }
+    const quote = wrapper.quote ?? null;
+    if (quote !== null && typeof quote !== "string") {
+      errors.push(`"${key}.quote": expected a verbatim transcript string or null, got ${JSON.stringify(quote)}`);
+    }
+    evidence[key] = {
+      confidence: confidence ?? 0,
+      quote: typeof quote === "string" && quote.trim() ? quote.trim() : null,
+    };
+  }
+
+  return { values, evidence, errors, coercions };
+}
+
+/**
+ * Checks whether a quote occurs verbatim in the transcript. Quotes elided with
+ * "..." match when every part occurs, in order.
+ */
+export function quoteOccursIn(quote: string, transcript: string): boolean {
+  const haystack = normalizeForMatch(transcript);
+  const parts = quote
+    .split(/\.\.\.|…/)
+    .map(normalizeForMatch)
+    .filter((part) => part.length > 0);
+  if (parts.length === 0) {
+    return false;
+  }
+  let position = 0;
+  for (const part of parts) {
+    const found = haystack.indexOf(part, position);
+    if (found === -1) {
+      return false;
+    }
+    position = found + part.length;
+  }
+  return true;
+}
+
+/**
+ * Verifies every quote against the transcript.
+ */
+export function verifyEvidence(
+  evidence: Record<string, RawFieldEvidence>,
+  transcript: string
+): Record<string, FieldEvidence> {
+  return Object.fromEntries(
+    Object.entries(evidence).map(([key, entry]) => [
+      key,
+      {
+        ...entry,
+        quoteVerified: entry.quote !== null && quoteOccursIn(entry.quote, transcript),
+      },
+    ])
+  );
+}
+
+/**
+ * Whether an extracted value should be flagged for a human to check: its
+ * confidence is below the threshold, or its supporting quote is missing or
+ * could not be found in the transcript.
+ */
+export function isLowConfidence(
+  evidence: FieldEvidence | undefined,
+  threshold: number
+): boolean {
+  return !evidence || !evidence.quoteVerified || evidence.confidence < threshold;
+}
@@ -0,0 +1,191 @@
+import log from "./log.ts";
+
+// --- Constants ---
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+// Statuses telling the request was not processed, so even a POST can be sent again.
+const NOT_PROCESSED_STATUSES = [429, 503];
+// Statuses worth retrying only when repeating the request is harmless.
+const TRANSIENT_STATUSES = [500, 502, 504];
+
+// --- Types ---
+export type HttpClientOptions = {
+  /** Per-attempt timeout when the call does not set one. */
+  timeoutMs: number;
+  /** Attempts per call, including the first. */
+  maxAttempts: number;
+  /** First retry delay; doubled on each attempt and jittered. */
+  baseDelayMs: number;
+  /** Longest wait between attempts. A longer Retry-After is not waited for: the response is returned. */
+  maxDelayMs: number;
+  /** Consecutive failures (network errors, timeouts, 5xx) after which a host is cut off. */
+  breakerThreshold: number;
+  /** How long a host stays cut off before one trial request is let through (the others keep failing until it answers). */
+  breakerCooldownMs: number;
+};
+
+export type HttpRequestInit = RequestInit & {
+  /** Overrides the client's per-attempt timeout. */
+  timeoutMs?: number;
+  /** Whether the request can be repeated safely. Defaults to true for GET, HEAD, OPTIONS, PUT and DELETE. */
+  idempotent?: boolean;
+  /** Overrides the client's attempts per call. */
+  maxAttempts?: number;
+  /** Short description for the logs, e.g. "Zoho Leads search". */
+  label?: string;
+  /** Logged with every attempt; generated when not set. */
+  requestId?: string;
+};
+
+/**
+ * A fetch-like function going through the client. The body must be reusable
+ * across attempts (string, FormData, URLSearchParams, Blob).
+ */
+export type HttpRequest = (url: string, init?: HttpRequestInit) => Promise<Response>;
+
+type BreakerState = {
+  failures: number;
+  openUntil: number;
+  /** A trial request is in flight after the cooldown (half-open). */
+  trialInFlight: boolean;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Simple asynchronous sleep function.
+ */
+const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Parses a Retry-After header (seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with jitter: between half and all of the doubled delay.
+ */
+function backoffDelay(attempt: number, options: HttpClientOptions): number {
+  const delay = Math.min(options.baseDelayMs * 2 ** (attempt - 1), options.maxDelayMs);
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * Whether a response should be retried, given whether the request may be repeated.
+ */
+function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  return NOT_PROCESSED_STATUSES.includes(status) || (idempotent && TRANSIENT_STATUSES.includes(status));
+}
+
+/**
+ * Error name and message for the attempt log (timeouts show as TimeoutError).
+ */
+function describeError(error: unknown): string {
+  return error instanceof Error ? `${error.name}: ${error.message}` : String(error);
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the HTTP client shared by the outbound calls (Zoho, Happy Scribe).
+ *
+ * Every attempt has its own timeout and is logged with the call's request ID.
+ * Network errors, timeouts and 500/502/504 are retried only for idempotent
+ * requests; 429 and 503 are retried for all requests, honoring Retry-After.
+ * Other responses are returned as they are. A host failing
+ * `breakerThreshold` times in a row is cut off for `breakerCooldownMs`, during
+ * which calls to it fail immediately. Then a single trial request is sent
+ * while the other calls keep failing: an answer closes the circuit, a failure
+ * opens it for another cooldown.
+ */
+export function createHttpClient(options: HttpClientOptions): HttpRequest {
+  const breakers = new Map<string, BreakerState>();
+
+  const recordFailure = (host: string) => {
+    const state = breakers.get(host) ?? { failures: 0, openUntil: 0, trialInFlight: false };
+    state.failures++;
+    state.trialInFlight = false;
+    if (state.failures >= options.breakerThreshold) {
+      state.openUntil = Date.now() + options.breakerCooldownMs;
+      log(`[httpClient] Circuit opened for ${host} after ${state.failures} consecutive failures (cooldown ${options.breakerCooldownMs}ms).`);
+    }
+    breakers.set(host, state);
+  };
+
+  return async (url: string, init: HttpRequestInit = {}): Promise<Response> => {
+    const { timeoutMs, idempotent, maxAttempts, label, requestId, ...fetchInit } = init;
+    const method = (fetchInit.method ?? "GET").toUpperCase();
+    const canRepeat = idempotent ?? IDEMPOTENT_METHODS.includes(method);
+    const attempts = maxAttempts ?? options.maxAttempts;
+    const id = requestId ?? crypto.randomUUID().slice(0, 8);
+    const { host, pathname } = new URL(url);
+    const description = `${label ? `${label} ` : ""}${method} ${host}${pathname}`;
+
+    for (let attempt = 1; ; attempt++) {
+      const breaker = breakers.get(host);
+      let trial = false;
+      if (breaker && breaker.failures >= options.breakerThreshold) {
+        if (breaker.openUntil > Date.now()) {
+          throw new Error(`Circuit open for ${host} until ${new Date(breaker.openUntil).toISOString()}; ${description} not sent.`);
+        }
+        if (breaker.trialInFlight) {
+          throw new Error(`Circuit half-open for ${host} while a trial request is in flight; ${description} not sent.`);
+        }
+        breaker.trialInFlight = true;
+        trial = true;
+        log(`[${id}] Circuit half-open for ${host}; sending ${description} as the trial request.`);
+      }
+
+      const startedAt = Date.now();
+      const signals = [AbortSignal.timeout(timeoutMs ?? options.timeoutMs)];
+      if (fetchInit.signal) {
+        signals.push(fetchInit.signal);
+      }
+      let response: Response;
+      try {
+        response = await fetch(url, { ...fetchInit, signal: AbortSignal.any(signals) });
+      } catch (error) {
+        log(`[${id}] ${description} attempt ${attempt}/${attempts} failed after ${Date.now() - startedAt}ms: ${describeError(error)}`);
+        if (fetchInit.signal?.aborted) {
+          if (trial && breaker) {
+            breaker.trialInFlight = false;
+          }
+          throw error; // Cancelled by the caller, not a failure of the host
+        }
+        recordFailure(host);
+        if (!canRepeat || attempt >= attempts) {
+          throw error;
+        }
+        await sleep(backoffDelay(attempt, options));
+        continue;
+      }
+
+      log(`[${id}] ${description} attempt ${attempt}/${attempts}: ${response.status} in ${Date.now() - startedAt}ms`);
+      if (response.status >= 500) {
+        recordFailure(host);
+      } else {
+        breakers.delete(host);
+      }
+      if (!isRetryableStatus(response.status, canRepeat) || attempt >= attempts) {
+        return response;
+      }
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+      if (retryAfter !== null && retryAfter > options.maxDelayMs) {
+        log(`[${id}] Retry-After of ${retryAfter}ms exceeds ${options.maxDelayMs}ms; not retrying in-process.`);
+        return response;
+      }
+      await response.body?.cancel();
+      await sleep(retryAfter ?? backoffDelay(attempt, options));
+    }
+  };
+}
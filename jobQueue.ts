@@ -0,0 +1,571 @@
+import log from "./log.ts";
+
+// --- Constants ---
+const JOBS_PREFIX = "jobs";
+const TRANSCRIPTION_INDEX_PREFIX = "jobs_by_transcription";
+const BLOBS_PREFIX = "job_blobs";
+const DEAD_LETTER_PREFIX = "dead_letter";
+const BLOB_CHUNK_SIZE = 16000; // Keeps each chunk well under the 64 KiB Deno KV value limit
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BASE_DELAY_MS = 5000;
+const MAX_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+// --- Types ---
+export type StageStatus = "pending" | "running" | "succeeded" | "failed" | "skipped";
+
+export type StageState = {
+  status: StageStatus;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  durationMs: number | null;
+};
+
+export type JobStatus = "queued" | "processing" | "completed" | "dead_letter";
+
+export type Job<TData> = {
+  id: string;
+  transcriptionId: string;
+  status: JobStatus;
+  createdAt: string;
+  updatedAt: string;
+  stages: Record<string, StageState>;
+  data: TData;
+  error: string | null;
+};
+
+/**
+ * How a submission was handled: a new job, a repeat of an existing job, or a
+ * dead-lettered job resumed from the stage that failed.
+ */
+export type SubmissionOutcome = "created" | "duplicate" | "resumed";
+
+export type DeadLetterEntry = {
+  jobId: string;
+  transcriptionId: string;
+  stage: string;
+  error: string;
+  deadLetteredAt: string;
+};
+
+/**
+ * Large text values (transcripts, raw model output) are stored outside the job
+ * record in chunks, bound to a single job.
+ */
+export type JobBlobs = {
+  get(name: string): Promise<string | null>;
+  put(name: string, value: string): Promise<void>;
+};
+
+export type StageHandler<TData> = (
+  job: Job<TData>,
+  blobs: JobBlobs
+) => Promise<Partial<TData> | void>;
+
+export type StageDefinition<TData> = {
+  name: string;
+  handler: StageHandler<TData>;
+  maxAttempts?: number;
+};
+
+export type JobQueueOptions = {
+  baseDelayMs?: number;
+  /** Blobs written when the job is submitted (its input); kept when the job is reprocessed. */
+  inputBlobs?: string[];
+};
+
+type QueueMessage = { jobId: string };
+
+type BlobMeta = {
+  chunkCount: number;
+  /** The chunks are stored under this version; absent for blobs written before versioning. */
+  version?: string;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Creates the initial state for a stage that has not run yet.
+ */
+function createStageState(): StageState {
+  return {
+    status: "pending",
+    attempts: 0,
+    lastError: null,
+    nextAttemptAt: null,
+    startedAt: null,
+    finishedAt: null,
+    durationMs: null,
+  };
+}
+
+/**
+ * Calculates the jittered exponential backoff before a stage is retried.
+ */
+function calculateStageBackoff(attempt: number, baseDelayMs: number): number {
+  const delay = baseDelayMs * Math.pow(2, attempt - 1);
+  return Math.min(delay + Math.random() * baseDelayMs, MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Whether a stage no longer needs to run.
+ */
+function isStageDone(state: StageState): boolean {
+  return state.status === "succeeded" || state.status === "skipped";
+}
+
+/**
+ * Type guard for messages delivered by the KV queue.
+ */
+function isQueueMessage(value: unknown): value is QueueMessage {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as QueueMessage).jobId === "string"
+  );
+}
+
+/**
+ * The key of one chunk of a blob.
+ */
+function blobChunkKey(jobId: string, name: string, meta: BlobMeta, index: number): Deno.KvKey {
+  return meta.version
+    ? [BLOBS_PREFIX, jobId, name, meta.version, index]
+    : [BLOBS_PREFIX, jobId, name, index];
+}
+
+/**
+ * Stores a string in fixed-size chunks so it can exceed the KV value size limit.
+ */
+async function putBlob(
+  kv: Deno.Kv,
+  jobId: string,
+  name: string,
+  value: string
+): Promise<void> {
+  const meta: BlobMeta = {
+    chunkCount: Math.ceil(value.length / BLOB_CHUNK_SIZE),
+    version: crypto.randomUUID(),
+  };
+  for (let i = 0; i < meta.chunkCount; i++) {
+    await kv.set(
+      blobChunkKey(jobId, name, meta, i),
+      value.slice(i * BLOB_CHUNK_SIZE, (i + 1) * BLOB_CHUNK_SIZE)
+    );
+  }
+  // The chunks go under a fresh version and the meta switches to it in one write,
+  // so readers see the whole old blob or the whole new one, even on a rewrite.
+  await kv.set([BLOBS_PREFIX, jobId, name], meta);
+  for await (const entry of kv.list({ prefix: [BLOBS_PREFIX, jobId, name] })) {
+    if (entry.key.length > 3 && entry.key[3] !== meta.version) {
+      await kv.delete(entry.key); // Chunks of the replaced version
+    }
+  }
+}
+
+/**
+ * Reads a chunked string back, or null if it was never stored. A blob rewritten
+ * while it is read (its old chunks deleted) is read again in its new version.
+ */
+async function getBlob(
+  kv: Deno.Kv,
+  jobId: string,
+  name: string
+): Promise<string | null> {
+  for (;;) {
+    const meta = await kv.get<BlobMeta>([BLOBS_PREFIX, jobId, name]);
+    if (!meta.value) {
+      return null;
+    }
+    const chunks: string[] = [];
+    for (let i = 0; i < meta.value.chunkCount; i++) {
+      const chunk = await kv.get<string>(blobChunkKey(jobId, name, meta.value, i));
+      if (chunk.value === null) {
+        break;
+      }
+      chunks.push(chunk.value);
+    }
+    if (chunks.length === meta.value.chunkCount) {
+      return chunks.join("");
+    }
+    const current = await kv.get<BlobMeta>([BLOBS_PREFIX, jobId, name]);
+    if (current.versionstamp === meta.versionstamp) {
+      throw new Error(`Blob "${name}" for job ${jobId} is missing chunk ${chunks.length}.`);
+    }
+  }
+}
+
+/**
+ * Deletes every blob stored for a job, except the named ones.
+ */
+async function deleteBlobs(kv: Deno.Kv, jobId: string, keep: string[] = []): Promise<void> {
+  for await (const entry of kv.list({ prefix: [BLOBS_PREFIX, jobId] })) {
+    if (!keep.includes(String(entry.key[2]))) {
+      await kv.delete(entry.key);
+    }
+  }
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates a durable, stage-based job queue backed by Deno KV.
+ *
+ * Each job runs its stages in order. Every stage keeps its own attempt count and
+ * error; a failed stage is retried with jittered backoff through a delayed KV queue
+ * message, and a stage that exhausts its attempts moves the job to the dead-letter
+ * list. Job state and the next queue message are committed atomically, so a crash
+ * or redeploy resumes the job from the stage that was in flight.
+ */
+export function createJobQueue<TData extends Record<string, unknown>>(
+  kv: Deno.Kv,
+  stages: StageDefinition<TData>[],
+  initialData: () => TData,
+  options: JobQueueOptions = {}
+) {
+  if (stages.length === 0) {
+    throw new Error("At least one stage is required.");
+  }
+  const baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const inputBlobs = options.inputBlobs ?? [];
+
+  const getJob = async (jobId: string): Promise<Job<TData> | null> =>
+    (await kv.get<Job<TData>>([JOBS_PREFIX, jobId])).value;
+
+  const bindBlobs = (jobId: string): JobBlobs => ({
+    get: (name) => getBlob(kv, jobId, name),
+    put: (name, value) => putBlob(kv, jobId, name, value),
+  });
+
+  const getJobByTranscriptionId = async (
+    transcriptionId: string
+  ): Promise<Job<TData> | null> => {
+    const index = await kv.get<string>([TRANSCRIPTION_INDEX_PREFIX, transcriptionId]);
+    return index.value ? await getJob(index.value) : null;
+  };
+
+  /**
+   * Re-queues a dead-lettered job. Stages that already succeeded are kept, so
+   * processing resumes at the stage that failed.
+   */
+  const resumeJob = async (jobId: string): Promise<Job<TData>> => {
+    const entry = await kv.get<Job<TData>>([JOBS_PREFIX, jobId]);
+    const job = entry.value;
+    if (!job) {
+      throw new Error(`Job ${jobId} not found.`);
+    }
+    if (job.status !== "dead_letter") {
+      return job;
+    }
+
+    for (const state of Object.values(job.stages)) {
+      if (state.status === "failed") {
+        state.status = "pending";
+        state.attempts = 0;
+        state.nextAttemptAt = null;
+      }
+    }
+    job.status = "queued";
+    job.error = null;
+    job.updatedAt = new Date().toISOString();
+
+    const result = await kv
+      .atomic()
+      .check(entry)
+      .set([JOBS_PREFIX, jobId], job)
+      .delete([DEAD_LETTER_PREFIX, jobId])
+      .enqueue({ jobId } satisfies QueueMessage)
+      .commit();
+    if (!result.ok) {
+      throw new Error(`Job ${jobId} changed while it was being resumed.`);
+    }
+    log(`[${jobId}] Dead-lettered job resumed for transcription ${job.transcriptionId}.`);
+    return job;
+  };
+
+  /**
+   * Runs a finished or dead-lettered job again from the first stage, discarding
+   * its previous results. Stages named in `skipStages` are marked skipped;
+   * `data` is applied over the fresh job data (e.g. flags for the new run).
+   * Throws if the job is still queued or processing.
+   */
+  const reprocessJob = async (
+    jobId: string,
+    skipStages: string[] = [],
+    data: Partial<TData> = {}
+  ): Promise<Job<TData>> => {
+    const unknownStages = skipStages.filter(
+      (name) => !stages.some((stage) => stage.name === name)
+    );
+    if (unknownStages.length > 0) {
+      throw new Error(`Unknown stage(s) to skip: ${unknownStages.join(", ")}`);
+    }
+
+    const entry = await kv.get<Job<TData>>([JOBS_PREFIX, jobId]);
+    const job = entry.value;
+    if (!job) {
+      throw new Error(`Job ${jobId} not found.`);
+    }
+    if (job.status === "queued" || job.status === "processing") {
+      throw new Error(`Job ${jobId} is still ${job.status} and cannot be reprocessed yet.`);
+    }
+
+    job.stages = Object.fromEntries(
+      stages.map((stage) => {
+        const state = createStageState();
+        if (skipStages.includes(stage.name)) {
+          state.status = "skipped";
+        }
+        return [stage.name, state];
+      })
+    );
+    job.data = { ...initialData(), ...data };
+    job.status = "queued";
+    job.error = null;
+    job.updatedAt = new Date().toISOString();
+
+    const result = await kv
+      .atomic()
+      .check(entry)
+      .set([JOBS_PREFIX, jobId], job)
+      .delete([DEAD_LETTER_PREFIX, jobId])
+      .commit();
+    if (!result.ok) {
+      throw new Error(`Job ${jobId} changed while it was being reprocessed.`);
+    }
+    // Stale results must not leak into the new run (e.g. a previous extraction
+    // being reused after the new extraction falls back). Cleared only once the
+    // job is ours (now queued, so no other reprocess can start) and before the
+    // message is sent, so the worker cannot write new blobs first. The job's input is kept.
+    await deleteBlobs(kv, jobId, inputBlobs);
+    await kv.enqueue({ jobId } satisfies QueueMessage);
+    log(`[${jobId}] Job reprocessing queued for transcription ${job.transcriptionId}${skipStages.length > 0 ? ` (skipping: ${skipStages.join(", ")})` : ""}.`);
+    return job;
+  };
+
+  /**
+   * Persists a new job for a transcription and schedules its first stage.
+   * Submitting a transcription that already has a job does not start new work:
+   * the existing job is returned, and resumed if it was dead-lettered.
+   * `blobs` are stored with a new job before it is scheduled (see `inputBlobs`).
+   */
+  const enqueueJob = async (
+    transcriptionId: string,
+    blobs: Record<string, string> = {}
+  ): Promise<{ job: Job<TData>; outcome: SubmissionOutcome }> => {
+    const existing = await getJobByTranscriptionId(transcriptionId);
+    if (existing) {
+      if (existing.status === "dead_letter") {
+        return { job: await resumeJob(existing.id), outcome: "resumed" };
+      }
+      log(`[${existing.id}] Duplicate submission for transcription ${transcriptionId} (job is ${existing.status}).`);
+      return { job: existing, outcome: "duplicate" };
+    }
+
+    const now = new Date().toISOString();
+    const job: Job<TData> = {
+      id: crypto.randomUUID(),
+      transcriptionId,
+      status: "queued",
+      createdAt: now,
+      updatedAt: now,
+      stages: Object.fromEntries(
+        stages.map((stage) => [stage.name, createStageState()])
+      ),
+      data: initialData(),
+      error: null,
+    };
+
+    for (const [name, value] of Object.entries(blobs)) {
+      await putBlob(kv, job.id, name, value);
+    }
+    const indexKey = [TRANSCRIPTION_INDEX_PREFIX, transcriptionId];
+    const result = await kv
+      .atomic()
+      .check({ key: indexKey, versionstamp: null })
+      .set(indexKey, job.id)
+      .set([JOBS_PREFIX, job.id], job)
+      .enqueue({ jobId: job.id } satisfies QueueMessage)
+      .commit();
+    if (!result.ok) {
+      // A concurrent delivery created the job between the lookup and the commit.
+      await deleteBlobs(kv, job.id);
+      const winner = await getJobByTranscriptionId(transcriptionId);
+      if (!winner) {
+        throw new Error(`Failed to persist job for transcription ${transcriptionId}.`);
+      }
+      return { job: winner, outcome: "duplicate" };
+    }
+    log(`[${job.id}] Job queued for transcription ${transcriptionId}.`);
+    return { job, outcome: "created" };
+  };
+
+  /**
+   * Runs the next unfinished stage of a job and schedules what comes after it.
+   */
+  const processJob = async (jobId: string): Promise<void> => {
+    const entry = await kv.get<Job<TData>>([JOBS_PREFIX, jobId]);
+    const job = entry.value;
+    if (!job) {
+      log(`[${jobId}] WARNING: Queue message for unknown job. Ignoring.`);
+      return;
+    }
+    if (job.status === "completed" || job.status === "dead_letter") {
+      log(`[${jobId}] Job already ${job.status}. Ignoring queue message.`);
+      return;
+    }
+    // Jobs created before a stage was added to the pipeline run it as pending.
+    for (const definition of stages) {
+      job.stages[definition.name] ??= createStageState();
+    }
+
+    const stage = stages.find(
+      (definition) => !isStageDone(job.stages[definition.name])
+    );
+    if (!stage) {
+      job.status = "completed";
+      job.updatedAt = new Date().toISOString();
+      await kv.set([JOBS_PREFIX, jobId], job);
+      return;
+    }
+
+    const state = job.stages[stage.name];
+    const maxAttempts = stage.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    state.status = "running";
+    state.attempts++;
+    state.startedAt = new Date().toISOString();
+    state.nextAttemptAt = null;
+    job.status = "processing";
+    job.updatedAt = state.startedAt;
+
+    // Claim the stage; a concurrent delivery of the same message loses the check.
+    const claim = await kv
+      .atomic()
+      .check(entry)
+      .set([JOBS_PREFIX, jobId], job)
+      .commit();
+    if (!claim.ok) {
+      log(`[${jobId}] Job changed while claiming stage "${stage.name}". Skipping this delivery.`);
+      return;
+    }
+
+    log(`[${jobId}] Running stage "${stage.name}" (attempt ${state.attempts}/${maxAttempts})...`);
+    const stageStartTime = Date.now();
+    let atomic = kv.atomic();
+
+    try {
+      const patch = await stage.handler(job, bindBlobs(jobId));
+      if (patch) {
+        job.data = { ...job.data, ...patch };
+      }
+      state.status = "succeeded";
+      state.lastError = null;
+      log(`[${jobId}] Stage "${stage.name}" succeeded in ${Date.now() - stageStartTime}ms.`);
+
+      const hasRemainingStages = stages.some(
+        (definition) => !isStageDone(job.stages[definition.name])
+      );
+      if (!hasRemainingStages) {
+        job.status = "completed";
+        log(`[${jobId}] Job completed for transcription ${job.transcriptionId}.`);
+      } else {
+        atomic = atomic.enqueue({ jobId } satisfies QueueMessage);
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      state.lastError = message;
+      log(`[${jobId}] CATCH ERROR in stage "${stage.name}" (attempt ${state.attempts}/${maxAttempts}):`, message);
+
+      if (state.attempts >= maxAttempts) {
+        state.status = "failed";
+        job.status = "dead_letter";
+        job.error = `Stage "${stage.name}" failed after ${state.attempts} attempts: ${message}`;
+        const deadLetter: DeadLetterEntry = {
+          jobId,
+          transcriptionId: job.transcriptionId,
+          stage: stage.name,
+          error: message,
+          deadLetteredAt: new Date().toISOString(),
+        };
+        atomic = atomic.set([DEAD_LETTER_PREFIX, jobId], deadLetter);
+        log(`[${jobId}] ERROR: Job moved to dead-letter list. ${job.error}`);
+      } else {
+        const delay = calculateStageBackoff(state.attempts, baseDelayMs);
+        state.status = "pending";
+        state.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+        job.status = "queued";
+        atomic = atomic.enqueue({ jobId } satisfies QueueMessage, { delay });
+        log(`[${jobId}] Stage "${stage.name}" will be retried in ${delay.toFixed(0)}ms.`);
+      }
+    }
+
+    state.finishedAt = new Date().toISOString();
+    state.durationMs = Date.now() - stageStartTime;
+    job.updatedAt = state.finishedAt;
+
+    const result = await atomic.set([JOBS_PREFIX, jobId], job).commit();
+    if (!result.ok) {
+      // Throwing makes KV redeliver the message, which re-runs this stage.
+      throw new Error(`Failed to persist state of job ${jobId} after stage "${stage.name}".`);
+    }
+  };
+
+  /**
+   * Lists jobs, newest first, optionally filtered by status.
+   */
+  const listJobs = async (
+    limit: number = 100,
+    status?: JobStatus
+  ): Promise<Job<TData>[]> => {
+    const jobs: Job<TData>[] = [];
+    for await (const entry of kv.list<Job<TData>>({ prefix: [JOBS_PREFIX] })) {
+      if (!status || entry.value.status === status) {
+        jobs.push(entry.value);
+      }
+    }
+    return jobs
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, limit);
+  };
+
+  /**
+   * Lists jobs whose stages exhausted their retries.
+   */
+  const listDeadLetters = async (): Promise<DeadLetterEntry[]> => {
+    const entries: DeadLetterEntry[] = [];
+    for await (const entry of kv.list<DeadLetterEntry>({ prefix: [DEAD_LETTER_PREFIX] })) {
+      entries.push(entry.value);
+    }
+    return entries;
+  };
+
+  /**
+   * Starts the worker that consumes queue messages. Call once at startup.
+   */
+  const start = (): Promise<void> =>
+    kv.listenQueue(async (message: unknown) => {
+      if (!isQueueMessage(message)) {
+        log("WARNING: Ignoring malformed job queue message:", JSON.stringify(message));
+        return;
+      }
+      await processJob(message.jobId);
+    });
+
+  return {
+    enqueueJob,
+    resumeJob,
+    reprocessJob,
+    getJob,
+    getJobByTranscriptionId,
+    getBlob: (jobId: string, name: string) => getBlob(kv, jobId, name),
+    listJobs,
+    listDeadLetters,
+    start,
+  };
+}
+
+export type JobQueue<TData extends Record<string, unknown>> = ReturnType<
+  typeof createJobQueue<TData>
+>;
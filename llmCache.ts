@@ -0,0 +1,161 @@
+import log from "./log.ts";
+
+// --- Constants ---
+const CACHE_PREFIX = "llm_cache";
+const CACHE_CHUNKS_PREFIX = "llm_cache_chunks";
+const CHUNK_SIZE = 16000; // Keeps each chunk well under the 64 KiB Deno KV value limit
+
+// --- Types ---
+
+/**
+ * What a cached result was produced from. The key is a hash of all of it, so a
+ * changed transcript, prompt or model never returns a stale result.
+ */
+export type LlmCacheKeyInput = {
+  /** The text given to the model; normalized before hashing. */
+  transcript: string;
+  /** Prompt and schema version; bump it (or invalidate) when the prompt changes. */
+  version: string;
+  /** Provider and model(s) that produce the result. */
+  model: string;
+};
+
+export type LlmCacheEntry = {
+  key: string;
+  kind: string;
+  version: string;
+  model: string;
+  chunks: number;
+  createdAt: string;
+};
+
+export type LlmCacheOptions = {
+  /** How long results are kept. 0 disables the cache. */
+  ttlMs: number;
+};
+
+// --- Exported Functions ---
+
+/**
+ * Hex SHA-256 of a string, e.g. to fold a config file into a cache version.
+ */
+export async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Normalizes a transcript for hashing: Unicode form, line endings and runs of
+ * whitespace, so re-exports that only differ in formatting share a cache entry.
+ */
+export function normalizeForCache(text: string): string {
+  return text
+    .normalize("NFC")
+    .replace(/\r\n?/g, "\n")
+    .replace(/[ \t]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * The content-addressed cache key of a result.
+ */
+export async function llmCacheKey(input: LlmCacheKeyInput): Promise<string> {
+  return await hashText(JSON.stringify([normalizeForCache(input.transcript), input.version, input.model]));
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the LLM result cache in Deno KV. Results are stored per kind
+ * ("extraction", "inventory") under their content-addressed key, split into
+ * chunks like job blobs, and expire after the TTL.
+ */
+export function createLlmCache(kv: Deno.Kv, options: LlmCacheOptions) {
+  const enabled = options.ttlMs > 0;
+
+  return {
+    enabled,
+
+    /**
+     * Returns a cached result, or null on a miss, an expired entry or when the cache is disabled.
+     */
+    async get<T>(kind: string, key: string): Promise<T | null> {
+      if (!enabled) {
+        return null;
+      }
+      const entry = (await kv.get<LlmCacheEntry>([CACHE_PREFIX, kind, key])).value;
+      // KV deletes expired keys lazily, so an entry past its TTL may still be read.
+      if (!entry || Date.parse(entry.createdAt) + options.ttlMs <= Date.now()) {
+        return null;
+      }
+      const chunks: string[] = [];
+      for (let index = 0; index < entry.chunks; index++) {
+        const chunk = await kv.get<string>([CACHE_CHUNKS_PREFIX, kind, key, index]);
+        if (chunk.value === null) {
+          return null; // Partly expired; treated as a miss
+        }
+        chunks.push(chunk.value);
+      }
+      return JSON.parse(chunks.join("")) as T;
+    },
+
+    /**
+     * Stores a result. Chunks are written before the entry, so readers never see a partial result.
+     */
+    async put(kind: string, key: string, input: Omit<LlmCacheKeyInput, "transcript">, value: unknown): Promise<void> {
+      if (!enabled) {
+        return;
+      }
+      const serialized = JSON.stringify(value);
+      const chunkCount = Math.max(1, Math.ceil(serialized.length / CHUNK_SIZE));
+      for (let index = 0; index < chunkCount; index++) {
+        await kv.set(
+          [CACHE_CHUNKS_PREFIX, kind, key, index],
+          serialized.slice(index * CHUNK_SIZE, (index + 1) * CHUNK_SIZE),
+          { expireIn: options.ttlMs }
+        );
+      }
+      const entry: LlmCacheEntry = {
+        key,
+        kind,
+        version: input.version,
+        model: input.model,
+        chunks: chunkCount,
+        createdAt: new Date().toISOString(),
+      };
+      await kv.set([CACHE_PREFIX, kind, key], entry, { expireIn: options.ttlMs });
+    },
+
+    /**
+     * Counts the cached results per kind.
+     */
+    async stats(): Promise<Record<string, number>> {
+      const counts: Record<string, number> = {};
+      for await (const entry of kv.list<LlmCacheEntry>({ prefix: [CACHE_PREFIX] })) {
+        counts[entry.value.kind] = (counts[entry.value.kind] ?? 0) + 1;
+      }
+      return counts;
+    },
+
+    /**
+     * Deletes the cached results of a kind, or all of them. Returns how many were deleted.
+     */
+    async invalidate(kind: string | null = null): Promise<number> {
+      const prefix = kind ? [kind] : [];
+      let deleted = 0;
+      for await (const entry of kv.list({ prefix: [CACHE_PREFIX, ...prefix] })) {
+        await kv.delete(entry.key);
+        deleted++;
+      }
+      for await (const entry of kv.list({ prefix: [CACHE_CHUNKS_PREFIX, ...prefix] })) {
+        await kv.delete(entry.key);
+      }
+      log(`[llmCache] Invalidated ${deleted} cached ${kind ?? "LLM"} result(s).`);
+      return deleted;
+    },
+  };
+}
+
+export type LlmCache = ReturnType<typeof createLlmCache>;
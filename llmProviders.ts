@@ -0,0 +1,212 @@
+// --- Constants ---
+const LLM_TASKS = ["extraction", "repair", "summarization"] as const;
+const AUTH_STYLES = ["bearer", "api-key", "none"] as const;
+const OPENAI_BASE_URL = "https://api.openai.com/v1";
+const OPENAI_DEFAULT_MODEL = "gpt-4o-mini";
+
+// --- Types ---
+
+/**
+ * What a call is for. Each provider can use a different model per task, e.g. a
+ * stronger model for extraction and a cheaper one for repairs.
+ */
+export type LlmTask = typeof LLM_TASKS[number];
+
+/**
+ * How the API key is sent: "bearer" as `Authorization: Bearer <key>` (OpenAI and
+ * most compatible servers), "api-key" as an `api-key` header (Azure OpenAI),
+ * "none" for local servers without authentication.
+ */
+export type LlmAuthStyle = typeof AUTH_STYLES[number];
+
+export type LlmProviderConfig = {
+  /**
+   * Base URL of the OpenAI-compatible API; "/chat/completions" is appended.
+   * "{model}" is replaced by the model, for Azure deployment URLs
+   * ("https://<resource>.openai.azure.com/openai/deployments/{model}").
+   */
+  baseUrl: string;
+  authStyle: LlmAuthStyle;
+  /** Environment variable holding the API key. Required unless authStyle is "none". */
+  apiKeyEnv?: string;
+  /** Sent as the `api-version` query parameter (Azure OpenAI). */
+  apiVersion?: string;
+  /** Role of the instruction message. Servers that do not know OpenAI's "developer" role need "system". */
+  instructionRole?: "developer" | "system";
+  /** Model (or Azure deployment) per task; "default" covers tasks without their own. */
+  models: { default: string } & Partial<Record<LlmTask, string>>;
+};
+
+export type LlmProvidersFile = {
+  primary: string;
+  /** Provider used once the primary fails (attempts exhausted, key or request rejected). */
+  fallback: string | null;
+  providers: Record<string, LlmProviderConfig>;
+};
+
+/**
+ * A provider ready to call: its configuration and resolved API key.
+ */
+export type LlmProvider = {
+  name: string;
+  config: LlmProviderConfig;
+  apiKey: string | null;
+};
+
+export type LlmProviders = {
+  primary: LlmProvider;
+  fallback: LlmProvider | null;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Validates one provider entry, collecting every problem found.
+ */
+function validateProvider(name: string, raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return [`providers.${name}: must be an object.`];
+  }
+  const errors: string[] = [];
+  const { baseUrl, authStyle, apiKeyEnv, apiVersion, instructionRole, models } = raw as Partial<LlmProviderConfig>;
+  if (typeof baseUrl !== "string" || !/^https?:\/\//.test(baseUrl)) {
+    errors.push(`providers.${name}.baseUrl: must be an http(s) URL.`);
+  }
+  if (!AUTH_STYLES.includes(authStyle as LlmAuthStyle)) {
+    errors.push(`providers.${name}.authStyle: must be one of ${AUTH_STYLES.join(", ")}.`);
+  }
+  if (authStyle !== "none" && (typeof apiKeyEnv !== "string" || !apiKeyEnv)) {
+    errors.push(`providers.${name}.apiKeyEnv: must name the environment variable holding the API key.`);
+  }
+  if (apiVersion !== undefined && typeof apiVersion !== "string") {
+    errors.push(`providers.${name}.apiVersion: must be a string.`);
+  }
+  if (instructionRole !== undefined && instructionRole !== "developer" && instructionRole !== "system") {
+    errors.push(`providers.${name}.instructionRole: must be "developer" or "system".`);
+  }
+  if (typeof models !== "object" || models === null || typeof models.default !== "string" || !models.default.trim()) {
+    errors.push(`providers.${name}.models: must have a "default" model.`);
+  } else {
+    for (const [task, model] of Object.entries(models)) {
+      if (task !== "default" && !LLM_TASKS.includes(task as LlmTask)) {
+        errors.push(`providers.${name}.models.${task}: unknown task (expected default, ${LLM_TASKS.join(", ")}).`);
+      } else if (typeof model !== "string" || !model.trim()) {
+        errors.push(`providers.${name}.models.${task}: must be a model name.`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * Validates the parsed providers file, collecting every problem found.
+ */
+function validateProvidersFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Providers file must contain a JSON object."];
+  }
+  const { primary, fallback, providers } = raw as Partial<LlmProvidersFile>;
+  if (typeof providers !== "object" || providers === null) {
+    return [`"providers" must be an object of provider settings.`];
+  }
+  const errors = Object.entries(providers).flatMap(([name, provider]) => validateProvider(name, provider));
+  if (typeof primary !== "string" || !(primary in providers)) {
+    errors.push(`"primary" must be one of the providers.`);
+  }
+  if (fallback !== null && fallback !== undefined && (typeof fallback !== "string" || !(fallback in providers))) {
+    errors.push(`"fallback" must be one of the providers, or null.`);
+  } else if (fallback === primary) {
+    errors.push(`"fallback" must differ from "primary".`);
+  }
+  return errors;
+}
+
+/**
+ * Resolves a provider's API key from the environment.
+ */
+function resolveProvider(
+  name: string,
+  config: LlmProviderConfig,
+  getEnv: (name: string) => string | undefined
+): LlmProvider | string {
+  if (config.authStyle === "none") {
+    return { name, config, apiKey: null };
+  }
+  const apiKey = getEnv(config.apiKeyEnv!);
+  return apiKey ? { name, config, apiKey } : `${config.apiKeyEnv} is not set (API key of provider "${name}").`;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads the LLM providers file and resolves the API keys of the primary and
+ * fallback providers. Keys are read from the environment, never from the file.
+ * @param path Path to the JSON providers file.
+ * @param getEnv Reads an environment variable (defaults to Deno.env).
+ */
+export async function loadLlmProviders(
+  path: string,
+  getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): Promise<LlmProviders> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read LLM providers "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validateProvidersFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid LLM providers "${path}":\n- ${errors.join("\n- ")}`);
+  }
+
+  const file = raw as LlmProvidersFile;
+  const primary = resolveProvider(file.primary, file.providers[file.primary], getEnv);
+  const fallback = file.fallback ? resolveProvider(file.fallback, file.providers[file.fallback], getEnv) : null;
+  const keyErrors = [primary, fallback].filter((entry): entry is string => typeof entry === "string");
+  if (keyErrors.length > 0) {
+    throw new Error(`Invalid LLM providers "${path}":\n- ${keyErrors.join("\n- ")}`);
+  }
+  return { primary: primary as LlmProvider, fallback: fallback as LlmProvider | null };
+}
+
+/**
+ * The OpenAI provider with the default model, for callers that only have an API key.
+ */
+export function openAiProvider(apiKey: string): LlmProvider {
+  return {
+    name: "openai",
+    config: { baseUrl: OPENAI_BASE_URL, authStyle: "bearer", models: { default: OPENAI_DEFAULT_MODEL } },
+    apiKey,
+  };
+}
+
+/**
+ * The model a provider uses for a task.
+ */
+export function modelFor(provider: LlmProvider, task: LlmTask | undefined): string {
+  return (task && provider.config.models[task]) || provider.config.models.default;
+}
+
+/**
+ * Builds the chat completions URL and headers for a provider and model.
+ */
+export function buildChatRequest(provider: LlmProvider, model: string): { url: string; headers: Record<string, string> } {
+  const { baseUrl, authStyle, apiVersion } = provider.config;
+  let url = `${baseUrl.replace("{model}", encodeURIComponent(model)).replace(/\/+$/, "")}/chat/completions`;
+  if (apiVersion) {
+    url += `?api-version=${encodeURIComponent(apiVersion)}`;
+  }
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    Accept: "application/json",
+  };
+  if (authStyle === "bearer") {
+    headers.Authorization = `Bearer ${provider.apiKey}`;
+  } else if (authStyle === "api-key") {
+    headers["api-key"] = provider.apiKey ?? "";
+  }
+  return { url, headers };
+}
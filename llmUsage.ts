@@ -0,0 +1,211 @@
+import type { LlmUsage } from "./callChatGPT4.ts";
+
+// --- Constants ---
+const USAGE_PREFIX = "llm_usage";
+
+// --- Types ---
+
+export type ModelPrice = {
+  /** Price per million prompt (input) tokens. */
+  inputPerMillion: number;
+  /** Price per million completion (output) tokens. */
+  outputPerMillion: number;
+};
+
+export type PriceTable = {
+  currency: string;
+  /** Prices per model name as sent to the provider (Azure: the deployment name). */
+  models: Record<string, ModelPrice>;
+};
+
+export type UsageBucket = {
+  calls: number;
+  attempts: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  /** Calls whose cost is unknown (model missing from the price table, or no usage reported). */
+  unpricedCalls: number;
+};
+
+/**
+ * Usage totals of a job or a day, overall and per model.
+ */
+export type UsageTotals = UsageBucket & {
+  currency: string;
+  byModel: Record<string, UsageBucket>;
+  updatedAt: string | null;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Validates the parsed price file, collecting every problem found.
+ */
+function validatePriceFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Price file must contain a JSON object."];
+  }
+  const errors: string[] = [];
+  const { currency, models } = raw as Partial<PriceTable>;
+  if (typeof currency !== "string" || !currency) {
+    errors.push(`"currency" must be a currency code.`);
+  }
+  if (typeof models !== "object" || models === null) {
+    errors.push(`"models" must be an object of prices per model.`);
+    return errors;
+  }
+  for (const [model, price] of Object.entries(models)) {
+    for (const key of ["inputPerMillion", "outputPerMillion"] as const) {
+      if (typeof price?.[key] !== "number" || price[key] < 0) {
+        errors.push(`models.${model}.${key}: must be a number >= 0.`);
+      }
+    }
+  }
+  return errors;
+}
+
+/**
+ * An empty bucket.
+ */
+function emptyBucket(): UsageBucket {
+  return { calls: 0, attempts: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+/**
+ * Adds one call to a bucket.
+ */
+function addToBucket(bucket: UsageBucket, usage: LlmUsage, cost: number | null): UsageBucket {
+  return {
+    calls: bucket.calls + 1,
+    attempts: bucket.attempts + usage.attempts,
+    promptTokens: bucket.promptTokens + usage.promptTokens,
+    completionTokens: bucket.completionTokens + usage.completionTokens,
+    cost: bucket.cost + (cost ?? 0),
+    unpricedCalls: bucket.unpricedCalls + (cost === null ? 1 : 0),
+  };
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the LLM price table.
+ * @param path Path to the JSON price file.
+ */
+export async function loadPriceTable(path: string): Promise<PriceTable> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read LLM prices "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validatePriceFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid LLM prices "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return raw as PriceTable;
+}
+
+/**
+ * The cost of a call, or null when the model has no price or no usage was reported.
+ * Dated model names ("gpt-4o-mini-2024-07-18") use the price of their base name.
+ */
+export function costOf(usage: LlmUsage, prices: PriceTable): number | null {
+  const price = prices.models[usage.model] ?? prices.models[usage.model.replace(/-\d{4}-\d{2}-\d{2}$/, "")];
+  if (!price || !usage.reported) {
+    return null;
+  }
+  return (usage.promptTokens * price.inputPerMillion + usage.completionTokens * price.outputPerMillion) / 1_000_000;
+}
+
+/**
+ * The UTC day ("YYYY-MM-DD") usage is counted against.
+ */
+export function usageDay(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the usage tracker. Every call is added to the totals of its job and
+ * of the current UTC day in Deno KV, so the totals survive restarts and are
+ * shared by concurrent workers.
+ */
+export function createUsageTracker(kv: Deno.Kv, prices: PriceTable) {
+  const emptyTotals = (): UsageTotals => ({ ...emptyBucket(), currency: prices.currency, byModel: {}, updatedAt: null });
+
+  /**
+   * Adds a call to the totals under a key, retrying when a concurrent update wins.
+   */
+  async function add(key: Deno.KvKey, usage: LlmUsage, cost: number | null): Promise<void> {
+    while (true) {
+      const entry = await kv.get<UsageTotals>(key);
+      const totals = entry.value ?? emptyTotals();
+      const { byModel, currency } = totals;
+      const updated: UsageTotals = {
+        ...addToBucket(totals, usage, cost),
+        currency,
+        byModel: { ...byModel, [usage.model]: addToBucket(byModel[usage.model] ?? emptyBucket(), usage, cost) },
+        updatedAt: new Date().toISOString(),
+      };
+      const result = await kv.atomic().check(entry).set(key, updated).commit();
+      if (result.ok) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Totals of a UTC day (zero when no calls were made).
+   */
+  async function dayTotals(day: string = usageDay()): Promise<UsageTotals> {
+    return (await kv.get<UsageTotals>([USAGE_PREFIX, "day", day])).value ?? emptyTotals();
+  }
+
+  return {
+    dayTotals,
+
+    /**
+     * Records a call against a job and the current day. Returns the call's cost (null if unknown).
+     */
+    async record(jobId: string | null, usage: LlmUsage): Promise<number | null> {
+      const cost = costOf(usage, prices);
+      await add([USAGE_PREFIX, "day", usageDay()], usage, cost);
+      if (jobId) {
+        await add([USAGE_PREFIX, "job", jobId], usage, cost);
+      }
+      return cost;
+    },
+
+    /**
+     * Totals of a job (zero when it made no calls).
+     */
+    async jobTotals(jobId: string): Promise<UsageTotals> {
+      return (await kv.get<UsageTotals>([USAGE_PREFIX, "job", jobId])).value ?? emptyTotals();
+    },
+
+    /**
+     * Totals of the most recent days with calls, newest first.
+     */
+    async recentDays(limit: number): Promise<{ day: string; totals: UsageTotals }[]> {
+      const days: { day: string; totals: UsageTotals }[] = [];
+      for await (const entry of kv.list<UsageTotals>({ prefix: [USAGE_PREFIX, "day"] }, { reverse: true, limit })) {
+        days.push({ day: entry.key[2] as string, totals: entry.value });
+      }
+      return days;
+    },
+
+    /**
+     * Whether today's cost has reached the budget. Calls of unpriced models do not count.
+     */
+    async isOverBudget(budget: number | null): Promise<boolean> {
+      return budget !== null && (await dayTotals()).cost >= budget;
+    },
+  };
+}
+
+export type UsageTracker = ReturnType<typeof createUsageTracker>;
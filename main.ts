@@ -1,7 +1,32 @@
 // main.ts
 import { serve } from "https://deno.land/std@0.224.0/http/server.ts";
 import { load } from "https://deno.land/std@0.224.0/dotenv/mod.ts";
-import { callGPT4 } from "./callChatGPT4.ts"; // Import the GPT-4 caller
+import { callGPT4, LlmAbortError, LlmAuthError, LlmError, parseJsonResponse, type CallGPT4Options } from "./callChatGPT4.ts"; // Import the GPT-4 caller and its errors
+import { loadLlmProviders, modelFor } from "./llmProviders.ts"; // Import the configurable LLM providers
+import { createUsageTracker, loadPriceTable } from "./llmUsage.ts"; // Import LLM token/cost accounting
+import { createUsageApi } from "./usageApi.ts"; // Import the LLM usage routes
+import { createLlmCache, hashText, llmCacheKey } from "./llmCache.ts"; // Import the LLM result cache
+import { createCacheApi } from "./cacheApi.ts"; // Import the LLM cache routes
+import { createWebhookVerifier } from "./webhookSignature.ts"; // Import the webhook signature verifier
+import { createJobQueue, type JobBlobs, type StageDefinition } from "./jobQueue.ts"; // Import the durable job queue
+import { createAdminApi } from "./adminApi.ts"; // Import the admin job routes
+import { validateAgainstSchema, type ValidationResult } from "./schemaValidator.ts"; // Import the runtime JSON validator
+import { estimateTokens, mergeChunkExtractions, splitTranscriptIntoChunks, type MergeResult } from "./chunkedExtraction.ts"; // Import long-transcript chunking
+import { buildPromptStructure, concatMergeKeys, fieldLabel, loadExtractionSchema, normalizationRules, renderFields, toObjectSchema, zohoFieldMappings, type FieldValue } from "./extractionSchema.ts"; // Import the config-driven extraction schema
+import { isLowConfidence, unwrapEvidenceResponse, verifyEvidence, type FieldEvidence, type RawFieldEvidence } from "./fieldEvidence.ts"; // Import per-field evidence checks
+import { describeNormalizedValue, normalizeExtraction, phoneSearchVariants, type NormalizedValue } from "./normalization.ts"; // Import phone/country/date/postal code normalization
+import { estimateVolume, loadVolumeCatalog, mergeInventories, parseStatedVolume, validateInventory, type InventoryItem, type VolumeEstimate } from "./volumeEstimation.ts"; // Import inventory volume/container estimation
+import { calculateQuote, loadRateTables, type PreliminaryQuote, type QuoteInput, type QuoteLine } from "./quoteCalculator.ts"; // Import the preliminary quote calculator
+import { createQuoteApi } from "./quoteApi.ts"; // Import the quote routes
+import { assessCompleteness, detectLanguage, loadCompletenessRules, resolveLanguage, type CompletenessReport } from "./completeness.ts"; // Import missing-information rules and follow-up drafts
+import { buildMatchQueries, MATCH_STRATEGY_TIERS, resolveMatch, type MatchInput, type MatchResult, type ZohoModule, type ZohoSearchHit } from "./zohoMatching.ts"; // Import Lead/Contact/Deal matching
+import { buildLeadFields, LEAD_OVERWRITE_POLICIES, mappedKey, planLeadUpdate, type LeadOverwritePolicy } from "./zohoLeadSync.ts"; // Import Zoho Lead upsert planning
+import { addBusinessDays, createOwnerRouter, loadRoutingConfig } from "./pricingRouting.ts"; // Import Deal/Task owner routing
+import { createZohoAuth } from "./zohoAuth.ts"; // Import the Zoho OAuth token manager
+import { createHttpClient } from "./httpClient.ts"; // Import the resilient HTTP client
+import { createSubmittedTranscriptSource, parseTranscriptJobKey, SUBMITTED_TRANSCRIPT_BLOB, transcriptJobKey, watchTranscriptDirectory, type SubmittedTranscript, type TranscriptSource } from "./transcriptSources.ts"; // Import transcript sources
+import { createTranscriptApi } from "./transcriptApi.ts"; // Import the transcript upload route
+import { assignSpeakerRoles, formatTimestamp, loadSpeakerRoleConfig, locateQuote, parseHappyScribeJson, renderPlainText, renderSpeakerText, speakerDisplayName, type TranscriptModel } from "./transcriptModel.ts"; // Import the speaker/timestamp transcript model
 import log from "./log.ts"; // Import the timestamped logger
 
 // --- Configuration Loading ---
@@ -13,168 +38,277 @@ const HAPPY_SCRIBE_API_KEY = Deno.env.get("HAPPY_SCRIBE_API_KEY");
 const ZOHO_CLIENT_ID = Deno.env.get("ZOHO_CLIENT_ID");
 const ZOHO_CLIENT_SECRET = Deno.env.get("ZOHO_CLIENT_SECRET");
 const ZOHO_REFRESH_TOKEN = Deno.env.get("ZOHO_REFRESH_TOKEN");
-const ZOHO_API_DOMAIN = Deno.env.get("ZOHO_API_DOMAIN") || "https://www.zohoapis.com";
-const ZOHO_ACCOUNTS_URL = Deno.env.get("ZOHO_ACCOUNTS_URL") || "https://accounts.zoho.com";
-const OPENAI_API_KEY = Deno.env.get("OPENAI_API_KEY"); // Load OpenAI Key
+const ZOHO_API_DOMAIN = Deno.env.get("ZOHO_API_DOMAIN") || "https://www.zohoapis.com"; // Fallback when the token response has no api_domain
+const ZOHO_ACCOUNTS_URL = Deno.env.get("ZOHO_ACCOUNTS_URL") || "https://accounts.zoho.com"; // Accounts server of your datacenter (e.g. https://accounts.zoho.eu)
+const ZOHO_CREATE_LEADS = Deno.env.get("ZOHO_CREATE_LEADS") !== "false"; // Create a Lead when no existing one matches the caller
+const ZOHO_LEAD_OVERWRITE_POLICY = (Deno.env.get("ZOHO_LEAD_OVERWRITE_POLICY") || "fill_empty") as LeadOverwritePolicy; // fill_empty | overwrite | overwrite_confident
+const ZOHO_LEAD_SOURCE = Deno.env.get("ZOHO_LEAD_SOURCE"); // Optional: Lead_Source picklist value for created Leads
+const ZOHO_CREATE_DEALS = Deno.env.get("ZOHO_CREATE_DEALS") === "true"; // Create a "Pricing Requested" Deal per request
+const ZOHO_ATTACH_FILES = Deno.env.get("ZOHO_ATTACH_FILES") !== "false"; // Attach the full transcript and extraction JSON to the linked record
+const ZOHO_CREATE_TASKS = Deno.env.get("ZOHO_CREATE_TASKS") === "true"; // Create a pricing Task with a due date per request
+const LLM_PROVIDERS_PATH = Deno.env.get("LLM_PROVIDERS_PATH") || "./config/llmProviders.json"; // LLM endpoints, auth, models per task and fallback (keys come from the env vars it names)
+const LLM_PRICES_PATH = Deno.env.get("LLM_PRICES_PATH") || "./config/llmPrices.json"; // Price per million tokens per model, for cost accounting
+const LLM_ATTEMPT_TIMEOUT_MS = parseInt(Deno.env.get("LLM_ATTEMPT_TIMEOUT_MS") || "120000", 10); // Time limit of each LLM API attempt
+const LLM_STAGE_TIMEOUT_MS = parseInt(Deno.env.get("LLM_STAGE_TIMEOUT_MS") || "900000", 10); // Time limit of all LLM calls of one extraction or inventory stage run
+const LLM_CACHE_TTL_DAYS = parseFloat(Deno.env.get("LLM_CACHE_TTL_DAYS") || "30"); // How long extraction results are reused for identical transcripts (0 disables the cache)
+const LLM_DAILY_BUDGET = Deno.env.get("LLM_DAILY_BUDGET") ? parseFloat(Deno.env.get("LLM_DAILY_BUDGET")!) : null; // Optional: daily LLM spend (price table currency) after which notes fall back to the raw transcript
+const HAPPY_SCRIBE_WEBHOOK_SECRET = Deno.env.get("HAPPY_SCRIBE_WEBHOOK_SECRET"); // Shared secret for webhook signatures
+const WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS = parseInt(Deno.env.get("WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS") || "300", 10);
 const PORT = parseInt(Deno.env.get("PORT") || "8000", 10);
+const ADMIN_API_TOKEN = Deno.env.get("ADMIN_API_TOKEN"); // Optional: enables the /jobs admin routes
+const EXTRACTION_MAX_REPAIR_ROUNDS = parseInt(Deno.env.get("EXTRACTION_MAX_REPAIR_ROUNDS") || "2", 10); // GPT repair attempts for invalid extraction JSON
+const EXTRACTION_MAX_TRANSCRIPT_TOKENS = parseInt(Deno.env.get("EXTRACTION_MAX_TRANSCRIPT_TOKENS") || "12000", 10); // Larger transcripts are extracted in chunks
+const EXTRACTION_CHUNK_TOKENS = parseInt(Deno.env.get("EXTRACTION_CHUNK_TOKENS") || "6000", 10);
+const EXTRACTION_CHUNK_OVERLAP_TOKENS = parseInt(Deno.env.get("EXTRACTION_CHUNK_OVERLAP_TOKENS") || "300", 10);
+const EXTRACTION_LOW_CONFIDENCE_THRESHOLD = parseFloat(Deno.env.get("EXTRACTION_LOW_CONFIDENCE_THRESHOLD") || "0.6"); // Fields below this are flagged in the note
+const EXTRACTION_SCHEMA_PATH = Deno.env.get("EXTRACTION_SCHEMA_PATH") || "./config/pricingRequestSchema.json"; // Fields to extract, their prompt hints and note layout
+const VOLUME_CATALOG_PATH = Deno.env.get("VOLUME_CATALOG_PATH") || "./config/volumeCatalog.json"; // Item volumes and container sizes for the volume estimate
+const RATE_TABLES_PATH = Deno.env.get("RATE_TABLES_PATH") || "./config/rateTables.json"; // Lane, packing, vehicle and discount rates for preliminary quotes
+const PRICING_ROUTING_PATH = Deno.env.get("PRICING_ROUTING_PATH") || "./config/pricingRouting.json"; // Deal/Task settings and owner routing rules
+const SPEAKER_ROLES_PATH = Deno.env.get("SPEAKER_ROLES_PATH") || "./config/speakerRoles.json"; // Agent speaker labels and phrases for telling agent and customer apart
+const COMPLETENESS_RULES_PATH = Deno.env.get("COMPLETENESS_RULES_PATH") || "./config/completenessRules.json"; // Fields required for a quote and follow-up message templates
+const HTTP_TIMEOUT_MS = parseInt(Deno.env.get("HTTP_TIMEOUT_MS") || "30000", 10); // Per-attempt timeout for Zoho and Happy Scribe calls
+const HTTP_MAX_ATTEMPTS = parseInt(Deno.env.get("HTTP_MAX_ATTEMPTS") || "3", 10); // Attempts per retryable Zoho/Happy Scribe call
+const TRANSCRIPTS_WATCH_DIR = Deno.env.get("TRANSCRIPTS_WATCH_DIR"); // Optional: directory watched for .txt/.srt/.vtt transcripts
+const KV_PATH = Deno.env.get("KV_PATH"); // Optional: Deno KV database file for the job queue (defaults to Deno's per-script location)
 
 // Basic validation
 // --- IMPORTANT: ZOHO_REFRESH_TOKEN is still needed for Zoho integration to work! ---
-if (!HAPPY_SCRIBE_API_KEY || !ZOHO_CLIENT_ID || !ZOHO_CLIENT_SECRET || !ZOHO_REFRESH_TOKEN || !OPENAI_API_KEY) {
-    log("ERROR: Missing required environment variables! Check HAPPY_SCRIBE_API_KEY, ZOHO_CLIENT_ID, ZOHO_CLIENT_SECRET, ZOHO_REFRESH_TOKEN, OPENAI_API_KEY.");
+if (!HAPPY_SCRIBE_API_KEY || !ZOHO_CLIENT_ID || !ZOHO_CLIENT_SECRET || !ZOHO_REFRESH_TOKEN || !HAPPY_SCRIBE_WEBHOOK_SECRET) {
+    log("ERROR: Missing required environment variables! Check HAPPY_SCRIBE_API_KEY, ZOHO_CLIENT_ID, ZOHO_CLIENT_SECRET, ZOHO_REFRESH_TOKEN, HAPPY_SCRIBE_WEBHOOK_SECRET.");
     Deno.exit(1); // Exit if critical env vars are missing
 } else {
     log("Environment variables loaded successfully.");
 }
+if (LLM_DAILY_BUDGET !== null && !(LLM_DAILY_BUDGET >= 0)) {
+    log("ERROR: LLM_DAILY_BUDGET must be a number >= 0.");
+    Deno.exit(1);
+}
+if (!(LLM_ATTEMPT_TIMEOUT_MS > 0) || !(LLM_STAGE_TIMEOUT_MS > 0)) {
+    log("ERROR: LLM_ATTEMPT_TIMEOUT_MS and LLM_STAGE_TIMEOUT_MS must be numbers > 0.");
+    Deno.exit(1);
+}
+if (!(LLM_CACHE_TTL_DAYS >= 0)) {
+    log("ERROR: LLM_CACHE_TTL_DAYS must be a number >= 0.");
+    Deno.exit(1);
+}
+if (!LEAD_OVERWRITE_POLICIES.includes(ZOHO_LEAD_OVERWRITE_POLICY)) {
+    log(`ERROR: ZOHO_LEAD_OVERWRITE_POLICY must be one of ${LEAD_OVERWRITE_POLICIES.join(", ")}.`);
+    Deno.exit(1);
+}
 
-// --- Instantiate GPT Caller ---
-const gptCaller = callGPT4(OPENAI_API_KEY);
-
-// --- Zoho API Helpers ---
-
-// In-memory store for the access token (improve with a persistent store if needed)
-let zohoAccessToken: string | null = null;
-let tokenExpiryTime: number | null = null;
+// --- Instantiate HTTP Client ---
+// Shared by the Zoho and Happy Scribe calls: timeouts, retries and a per-host circuit breaker.
+const httpRequest = createHttpClient({
+    timeoutMs: HTTP_TIMEOUT_MS,
+    maxAttempts: HTTP_MAX_ATTEMPTS,
+    baseDelayMs: 1000,
+    maxDelayMs: 30000,
+    breakerThreshold: 5,
+    breakerCooldownMs: 60000,
+});
+
+// --- Instantiate GPT Callers ---
+// The providers file picks the API (OpenAI, Azure OpenAI or any OpenAI-compatible
+// server), the model per task and an optional fallback provider. Its API key
+// variables (OPENAI_API_KEY by default) are checked here.
+const llmProviders = await loadLlmProviders(LLM_PROVIDERS_PATH);
+log(`LLM providers loaded from ${LLM_PROVIDERS_PATH}: ${llmProviders.primary.name} (extraction: ${modelFor(llmProviders.primary, "extraction")}, repair: ${modelFor(llmProviders.primary, "repair")})${llmProviders.fallback ? `, fallback ${llmProviders.fallback.name}` : ""}.`);
+
+// JSON mode keeps extraction responses free of Markdown fences and prose; temperature 0
+// keeps repeated extractions of the same transcript consistent.
+const EXTRACTION_CALL_OPTIONS: CallGPT4Options = { task: "extraction", responseFormat: { type: "json_object" }, temperature: 0, timeoutMs: LLM_ATTEMPT_TIMEOUT_MS };
+const REPAIR_CALL_OPTIONS: CallGPT4Options = { ...EXTRACTION_CALL_OPTIONS, task: "repair" };
+const LLM_STAGE_MAX_ATTEMPTS = 2;
+
+const llmPrices = await loadPriceTable(LLM_PRICES_PATH);
+log(`LLM prices loaded from ${LLM_PRICES_PATH} (${Object.keys(llmPrices.models).length} models). Daily budget: ${LLM_DAILY_BUDGET !== null ? `${LLM_DAILY_BUDGET} ${llmPrices.currency}` : "none"}.`);
+
+// GPT calls made for a job resolve to the content; their tokens and cost are recorded
+// against the job and the day (usageTracker, created with the job queue). The signal
+// cancels every call of the stage run once it has taken too long. usedFallback tells
+// whether any call was answered by the fallback provider, whose results are not cached
+// under the primary model's key.
+type TrackedGptCall = (strings: TemplateStringsArray, ...values: unknown[]) => Promise<string>;
+type JobGptCallers = { extraction: TrackedGptCall; repair: TrackedGptCall; usedFallback: () => boolean };
+
+function jobGptCallers(jobId: string, signal: AbortSignal): JobGptCallers {
+    let usedFallback = false;
+    const track = (options: CallGPT4Options): TrackedGptCall => {
+        const caller = callGPT4(llmProviders, 5, { ...options, signal });
+        return async (strings, ...values) => {
+            const { content, usage } = await caller(strings, ...values);
+            usedFallback ||= usage.provider !== llmProviders.primary.name;
+            const cost = await usageTracker.record(jobId, usage);
+            log(`[${jobId}] LLM usage: ${usage.provider}/${usage.model}, ${usage.promptTokens} prompt + ${usage.completionTokens} completion tokens, ${usage.attempts} attempt(s), cost: ${cost !== null ? `${cost.toFixed(4)} ${llmPrices.currency}` : "unknown"}.`);
+            return content;
+        };
+    };
+    return { extraction: track(EXTRACTION_CALL_OPTIONS), repair: track(REPAIR_CALL_OPTIONS), usedFallback: () => usedFallback };
+}
 
-async function getZohoAccessToken(): Promise<string> {
-    const functionName = "getZohoAccessToken";
-    // Check if the current token is valid (with a small buffer)
-    if (zohoAccessToken && tokenExpiryTime && Date.now() < tokenExpiryTime - 60000) { // 60s buffer
-        log(`[${functionName}] Using cached Zoho access token.`);
-        return zohoAccessToken;
+// Decides what a failed LLM stage does with the error. Transient failures (rate limits,
+// server errors, timeouts) that outlasted callGPT4's own retries are thrown, so the job
+// queue runs the stage again later; on its last attempt, and for every other failure,
+// the stage gives up and the note is written without the GPT results.
+// Returns the message to store as the stage's error.
+function handleLlmStageFailure(jobId: string, attempt: number, error: unknown): string {
+    if (error instanceof LlmError && error.retryable && attempt < LLM_STAGE_MAX_ATTEMPTS) {
+        log(`[${jobId}] Transient LLM failure (${error.name}); the stage will be retried.`);
+        throw error;
     }
+    if (error instanceof LlmAuthError) {
+        log(`[${jobId}] ERROR: ${error.provider} rejected the API key or has no quota left (HTTP ${error.status}). Check the key configured in ${LLM_PROVIDERS_PATH}.`);
+    } else if (error instanceof LlmAbortError) {
+        log(`[${jobId}] LLM calls cancelled after the stage limit of ${LLM_STAGE_TIMEOUT_MS}ms.`);
+    }
+    return error instanceof LlmError ? `${error.name}: ${error.message}` : error instanceof Error ? error.message : String(error);
+}
 
-    log(`[${functionName}] Refreshing Zoho access token...`);
-    const tokenUrl = `${ZOHO_ACCOUNTS_URL}/oauth/v2/token`;
-    const params = new URLSearchParams();
-    params.append("client_id", ZOHO_CLIENT_ID!);
-    params.append("client_secret", ZOHO_CLIENT_SECRET!);
-    params.append("refresh_token", ZOHO_REFRESH_TOKEN!);
-    params.append("grant_type", "refresh_token");
-
-    try {
-        const response = await fetch(tokenUrl, {
-            method: "POST",
-            body: params,
-        });
-
-        if (!response.ok) {
-            const errorText = await response.text();
-            log(`[${functionName}] ERROR: Failed to refresh Zoho token - Status ${response.status}`, errorText);
-            throw new Error(`Failed to refresh Zoho token: ${response.status} ${errorText}`);
-        }
+// --- Zoho API Helpers ---
 
-        const tokenData = await response.json();
-        log(`[${functionName}] Token refresh response received:`, JSON.stringify(tokenData)); // Log the raw response
+// --- Functions to find the caller's Lead, Contact or Deal ---
+// Returns the records matching the criteria; an empty list when there are none.
+async function searchZohoRecords(requestId: string, module: ZohoModule, criteria: string): Promise<Record<string, unknown>[]> {
+    const functionName = "searchZohoRecords";
+    log(`[${functionName}] Searching ${module} using criteria: ${criteria}`);
+    const response = await zohoAuth.fetch(`/crm/v2/${module}/search?criteria=${encodeURIComponent(criteria)}`, { method: "GET", label: `Zoho ${module} search`, requestId });
+    log(`[${functionName}] Zoho ${module} Search API Response Status: ${response.status}`);
+    if (response.status === 204) {
+        return [];
+    }
+    const responseBodyText = await response.text();
+    if (response.status === 403) {
+        // A missing module scope should not stop the other modules from being searched
+        log(`[${functionName}] WARNING: Received 403 Forbidden. This might indicate missing 'ZohoCRM.modules.${module.toLowerCase()}.READ' scope for the refresh token. Skipping ${module}.`);
+        return [];
+    }
+    if (!response.ok) {
+        throw new Error(`Zoho ${module} search failed: Status ${response.status}. Response: ${responseBodyText}`);
+    }
+    return JSON.parse(responseBodyText)?.data ?? [];
+}
 
-        if (tokenData.error) {
-             log(`[${functionName}] ERROR: Zoho token refresh API returned error:`, tokenData.error);
-             throw new Error(`Zoho token refresh error: ${tokenData.error}`);
+// Tries email, then phone variants, then name plus city across Leads, Contacts and
+// Deals, and scores what was found (see resolveMatch).
+async function findZohoMatch(requestId: string, input: MatchInput): Promise<MatchResult> {
+    const functionName = "findZohoMatch";
+    for (const tier of MATCH_STRATEGY_TIERS) {
+        const queries = tier.flatMap((strategy) => buildMatchQueries(strategy, input));
+        const hits: ZohoSearchHit[] = [];
+        for (const query of queries) {
+            const records = await searchZohoRecords(requestId, query.module, query.criteria);
+            hits.push(...records.map((record) => ({ module: query.module, record })));
         }
-
-        if (!tokenData.access_token) {
-            log(`[${functionName}] ERROR: Access token not found in Zoho response.`);
-            throw new Error("Access token not found in Zoho token refresh response.");
+        const result = resolveMatch(hits, input);
+        if (result.status !== "none") {
+            log(`[${functionName}] ${tier.join("/")} search: ${result.status}, ${result.candidates.length} candidate(s).`);
+            return result;
         }
-
-        zohoAccessToken = tokenData.access_token;
-        // Zoho typically gives expiry in seconds
-        tokenExpiryTime = Date.now() + (tokenData.expires_in * 1000);
-        log(`[${functionName}] Successfully refreshed Zoho access token. Expires around: ${new Date(tokenExpiryTime).toISOString()}`);
-        return zohoAccessToken!;
-
-    } catch (error) {
-        log(`[${functionName}] CATCH ERROR refreshing Zoho token:`, error instanceof Error ? error.message : String(error), error);
-        // Clear potentially bad token state
-        zohoAccessToken = null;
-        tokenExpiryTime = null;
-        throw error; // Re-throw to indicate failure
     }
+    log(`[${functionName}] No matching Lead, Contact or Deal found.`);
+    return { status: "none", match: null, candidates: [] };
 }
 
-// --- Function to find Lead ID by email or phone ---
-async function findZohoLeadId(email: string | null, phone: string | null): Promise<string | null> {
-    const functionName = "findZohoLeadId";
-    if (!email && !phone) {
-        log(`[${functionName}] Cannot search for lead without email or phone.`);
-        return null;
-    }
 
-    let criteria = "";
-    if (email) {
-        criteria = `(Email:equals:${email})`;
-        log(`[${functionName}] Searching for Lead using criteria: ${criteria}`);
-    } else if (phone) {
-        // Basic phone number cleanup (remove common non-digits) - might need refinement
-        const cleanedPhone = phone.replace(/[\s+\-().]/g, '');
-        criteria = `(Phone:equals:${cleanedPhone})`; // Assumes Zoho stores phone similarly
-        log(`[${functionName}] Searching for Lead using criteria: ${criteria}`);
-    }
+// --- Functions to read, create and update a Lead ---
 
-    const searchUrl = `${ZOHO_API_DOMAIN}/crm/v2/Leads/search?criteria=${encodeURIComponent(criteria)}`;
-    log(`[${functionName}] Search URL: ${searchUrl}`);
+// Body of Zoho create, update and attachment upload responses.
+type ZohoWriteResponse = { data?: { code: string; details: { id: string } }[] };
 
-    let accessToken: string;
+// Reads a Zoho write response and returns the ID of the record written; throws when
+// the call failed. `action` completes "Failed to ...", e.g. "create Zoho Lead".
+async function readZohoWriteResult(response: Response, functionName: string, action: string): Promise<string> {
+    const responseBodyText = await response.text();
+    log(`[${functionName}] Zoho API Response Status: ${response.status}`);
+    let responseData: ZohoWriteResponse | null;
     try {
-        accessToken = await getZohoAccessToken();
-    } catch (tokenError) {
-        log(`[${functionName}] ERROR: Failed to get access token for lead search.`, tokenError);
-        return null; // Cannot search without token
+        responseData = JSON.parse(responseBodyText) as ZohoWriteResponse | null;
+    } catch (parseError) {
+        throw new Error(`Failed to parse Zoho API response JSON (Status: ${response.status}) for "${action}": ${responseBodyText}`, { cause: parseError });
+    }
+    const result = responseData?.data?.[0];
+    if (response.status > 299 || result?.code !== "SUCCESS") {
+        log(`[${functionName}] ERROR: Failed to ${action}. Response:`, responseBodyText);
+        throw new Error(`Failed to ${action}: Status ${response.status}. Response: ${responseBodyText}`);
     }
+    return result.details.id;
+}
 
-    try {
-        log(`[${functionName}] Sending GET request to Zoho Lead Search API...`);
-        const response = await fetch(searchUrl, {
-            method: "GET",
-            headers: {
-                "Authorization": `Zoho-oauthtoken ${accessToken}`,
-            },
-        });
+async function getZohoLead(requestId: string, leadId: string): Promise<Record<string, unknown> | null> {
+    const functionName = "getZohoLead";
+    const response = await zohoAuth.fetch(`/crm/v2/Leads/${encodeURIComponent(leadId)}`, { method: "GET", label: "Zoho Lead read", requestId });
+    log(`[${functionName}] Zoho Lead API Response Status: ${response.status}`);
+    if (response.status === 204 || response.status === 404) {
+        return null;
+    }
+    const responseBodyText = await response.text();
+    if (!response.ok) {
+        throw new Error(`Failed to read Zoho Lead ${leadId}: Status ${response.status}. Response: ${responseBodyText}`);
+    }
+    return JSON.parse(responseBodyText)?.data?.[0] ?? null;
+}
 
-        const responseBodyText = await response.text();
-        log(`[${functionName}] Zoho Lead Search API Response Status: ${response.status}`);
-        log(`[${functionName}] Zoho Lead Search API Response Body:`, responseBodyText);
+// Creates a Lead (leadId null) or updates the given fields of an existing one. Returns the Lead ID.
+async function saveZohoLead(requestId: string, fields: Record<string, unknown>, leadId: string | null = null): Promise<string> {
+    const functionName = "saveZohoLead";
+    const path = leadId ? `/crm/v2/Leads/${encodeURIComponent(leadId)}` : "/crm/v2/Leads";
+    log(`[${functionName}] Sending ${leadId ? `PUT (update Lead ${leadId})` : "POST (create Lead)"} with fields: ${Object.keys(fields).join(", ")}`);
+    const response = await zohoAuth.fetch(path, {
+        method: leadId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        label: leadId ? "Zoho Lead update" : "Zoho Lead creation",
+        requestId,
+        body: JSON.stringify({ data: [fields], trigger: [] }),
+    });
+
+    const id = await readZohoWriteResult(response, functionName, leadId ? `update Zoho Lead ${leadId}` : "create Zoho Lead");
+    log(`[${functionName}] Zoho Lead ${leadId ? "updated" : "created"}: ${id}`);
+    return id;
+}
 
-        if (!response.ok) {
-            // Check for permission error specifically
-            if (response.status === 403) {
-                 log(`[${functionName}] WARNING: Received 403 Forbidden. This might indicate missing 'ZohoCRM.modules.leads.READ' scope for the refresh token.`);
-            }
-            log(`[${functionName}] ERROR: Zoho Lead Search API returned non-success status ${response.status}.`);
-            return null; // Search failed
-        }
 
-        const responseData = JSON.parse(responseBodyText);
+// Creates a record in any module (used for Deals and Tasks). Returns the record ID.
+async function createZohoRecord(requestId: string, module: string, fields: Record<string, unknown>): Promise<string> {
+    const functionName = "createZohoRecord";
+    log(`[${functionName}] Sending POST (create ${module}) with fields: ${Object.keys(fields).join(", ")}`);
+    const response = await zohoAuth.fetch(`/crm/v2/${module}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        label: `Zoho ${module} creation`,
+        requestId,
+        body: JSON.stringify({ data: [fields], trigger: [] }),
+    });
+
+    const id = await readZohoWriteResult(response, functionName, `create Zoho ${module} record`);
+    log(`[${functionName}] Zoho ${module} record created: ${id}`);
+    return id;
+}
 
-        if (responseData?.data?.length > 0) {
-            const leadId = responseData.data[0].id;
-            log(`[${functionName}] Found Lead ID: ${leadId}`);
-            return leadId;
-        } else {
-            log(`[${functionName}] No matching Lead found for criteria: ${criteria}`);
-            return null;
-        }
 
-    } catch (error) {
-        log(`[${functionName}] CATCH ERROR during lead search:`, error instanceof Error ? error.message : String(error), error);
-        return null;
-    }
+// Uploads a text file as an attachment of a record. Returns the attachment ID.
+async function uploadZohoAttachment(requestId: string, module: ZohoModule, recordId: string, fileName: string, content: string, contentType: string): Promise<string> {
+    const functionName = "uploadZohoAttachment";
+    const form = new FormData();
+    form.append("file", new Blob([content], { type: contentType }), fileName);
+    log(`[${functionName}] Uploading ${fileName} (${content.length} chars) to ${module} ${recordId}...`);
+    const response = await zohoAuth.fetch(`/crm/v2/${module}/${encodeURIComponent(recordId)}/Attachments`, {
+        method: "POST",
+        body: form,
+        label: "Zoho attachment upload",
+        requestId,
+        timeoutMs: HTTP_TIMEOUT_MS * 4, // Transcripts of long calls take a while to upload
+    });
+
+    const id = await readZohoWriteResult(response, functionName, `upload ${fileName} to Zoho ${module} ${recordId}`);
+    log(`[${functionName}] Uploaded ${fileName}: attachment ${id}`);
+    return id;
 }
 
 
-async function createZohoNote(title: string, content: string, leadId: string | null = null): Promise<void> {
+async function createZohoNote(requestId: string, title: string, content: string, leadId: string | null = null, parentModule: ZohoModule = "Leads"): Promise<string | null> {
     const functionName = "createZohoNote";
-    log(`[${functionName}] Attempting to create note. Title: "${title}". Linking to Lead ID: ${leadId ?? 'None'}`);
-    let accessToken: string;
-    try {
-        accessToken = await getZohoAccessToken(); // Will refresh if needed
-    } catch (tokenError) {
-        log(`[${functionName}] ERROR: Failed to get access token before creating note.`, tokenError);
-        throw new Error("Failed to get Zoho access token for note creation.", { cause: tokenError });
-    }
-
-    const notesUrl = `${ZOHO_API_DOMAIN}/crm/v2/Notes`;
-    log(`[${functionName}] Using Notes URL: ${notesUrl}`);
+    log(`[${functionName}] Attempting to create note. Title: "${title}". Linking to ${parentModule} ID: ${leadId ?? 'None'}`);
 
     const notePayload: any = { // Use 'any' for flexibility adding parent
         Note_Title: title,
@@ -184,8 +318,8 @@ async function createZohoNote(title: string, content: string, leadId: string | n
     // If a leadId is provided, add the linking information
     if (leadId) {
         notePayload.Parent_Id = { id: leadId };
-        notePayload.$se_module = "Leads";
-        log(`[${functionName}] Added Parent_Id (${leadId}) and $se_module (Leads) to note payload.`);
+        notePayload.$se_module = parentModule;
+        log(`[${functionName}] Added Parent_Id (${leadId}) and $se_module (${parentModule}) to note payload.`);
     } else {
         log(`[${functionName}] Creating note without linking to a parent record.`);
     }
@@ -200,10 +334,11 @@ async function createZohoNote(title: string, content: string, leadId: string | n
 
     try {
         log(`[${functionName}] Sending POST request to Zoho Notes API...`);
-        const response = await fetch(notesUrl, {
+        const response = await zohoAuth.fetch("/crm/v2/Notes", {
             method: "POST",
+            label: "Zoho note creation",
+            requestId,
             headers: {
-                "Authorization": `Zoho-oauthtoken ${accessToken}`,
                 "Content-Type": "application/json",
             },
             body: JSON.stringify(noteData),
@@ -233,10 +368,12 @@ async function createZohoNote(title: string, content: string, leadId: string | n
         if (responseData?.data?.[0]?.code === "SUCCESS") {
              const noteId = responseData.data[0].details.id;
              log(`[${functionName}] Successfully created Zoho Note with ID: ${noteId}`);
+             return noteId;
         } else {
              log(`[${functionName}] WARNING: Zoho Note creation status uncertain or failed in response data. Response:`, responseData);
              // Optionally throw an error here if a SUCCESS code is strictly required
              // throw new Error(`Zoho Note creation failed according to response data: ${JSON.stringify(responseData)}`);
+             return null;
         }
 
     } catch (error) {
@@ -247,14 +384,17 @@ async function createZohoNote(title: string, content: string, leadId: string | n
 
 
 // --- Happy Scribe API Helper ---
-async function getHappyScribeTranscriptionText(transcriptionId: string): Promise<string> {
+// Returns the raw export: "txt" is plain text, "json" has speakers and word timestamps.
+async function getHappyScribeTranscriptionText(requestId: string, transcriptionId: string, format: "txt" | "json" = "txt"): Promise<string> {
     const functionName = "getHappyScribeTranscriptionText";
-    const url = `https://www.happyscribe.com/api/v1/transcriptions/${transcriptionId}/export?format=txt`;
+    const url = `https://www.happyscribe.com/api/v1/transcriptions/${transcriptionId}/export?format=${format}`;
     log(`[${functionName}] Fetching transcription text export URL for ID: ${transcriptionId}. URL: ${url}`);
 
     try {
         log(`[${functionName}] Sending GET request to Happy Scribe export endpoint...`);
-        const response = await fetch(url, {
+        const response = await httpRequest(url, {
+            label: "Happy Scribe export",
+            requestId,
             headers: {
                 "Authorization": `Bearer ${HAPPY_SCRIBE_API_KEY}`,
             },
@@ -287,7 +427,7 @@ async function getHappyScribeTranscriptionText(transcriptionId: string): Promise
         log(`[${functionName}] Received export URL: ${exportUrl}. Fetching text content...`);
 
         // Fetch the actual text content from the export URL
-        const textResponse = await fetch(exportUrl);
+        const textResponse = await httpRequest(exportUrl, { label: "Happy Scribe download", requestId });
         const transcriptionText = await textResponse.text(); // Read text content
         log(`[${functionName}] Transcription Text Response Status: ${textResponse.status}`);
 
@@ -308,6 +448,1170 @@ async function getHappyScribeTranscriptionText(transcriptionId: string): Promise
 }
 
 
+// --- Transcript Sources ---
+// Jobs are keyed by "<source>:<id>" (bare IDs are Happy Scribe transcriptions); every
+// source feeds the same pipeline.
+const transcriptSources: Record<string, TranscriptSource> = {
+    happyscribe: {
+        name: "happyscribe",
+        load: async (transcriptionId, _blobs, jobId) => {
+            // The JSON export has speakers and timestamps; the plain text export is the fallback.
+            try {
+                const utterances = parseHappyScribeJson(JSON.parse(await getHappyScribeTranscriptionText(jobId, transcriptionId, "json")));
+                if (utterances.length > 0) {
+                    return { text: renderPlainText(utterances), speakerText: null, utterances };
+                }
+                log(`[happyscribe] WARNING: JSON export of ${transcriptionId} has no utterances; using the text export.`);
+            } catch (error) {
+                log(`[happyscribe] WARNING: JSON export of ${transcriptionId} not usable, using the text export:`, error instanceof Error ? error.message : String(error));
+            }
+            return { text: await getHappyScribeTranscriptionText(jobId, transcriptionId), speakerText: null, utterances: null };
+        },
+    },
+    upload: createSubmittedTranscriptSource("upload"),
+    directory: createSubmittedTranscriptSource("directory"),
+};
+
+
+// --- Pricing Request Extraction ---
+
+// The extracted fields are defined in the schema file (EXTRACTION_SCHEMA_PATH): the
+// prompt, the validator and the note are all generated from it. This interface only
+// names the fields the pipeline code reads directly; they must exist in the schema.
+interface PricingRequestDetails {
+    [key: string]: FieldValue;
+    nombre_cliente: string | null;
+    correo_electronico: string | null;
+    numero_telefono: string | null; // Include country code if possible
+    notas_especiales: string | null;
+    pais_origen: string | null;
+    pais_destino: string | null;
+    ciudad_origen: string | null;
+    tipo_servicio: string | null;
+    tipo_embalaje: string | null;
+    incluye_vehiculo: boolean | null;
+    vehiculo_valor_usd: number | null;
+    volumen_estimado_m3: number | string | null;
+    idioma_cliente: string | null;
+    codigo_descuento: string | null;
+}
+
+const extractionSchema = await loadExtractionSchema(EXTRACTION_SCHEMA_PATH, {
+    nombre_cliente: ["string"],
+    correo_electronico: ["string"],
+    numero_telefono: ["string"],
+    notas_especiales: ["string"],
+    pais_origen: ["string"],
+    pais_destino: ["string"],
+    ciudad_origen: ["string"],
+    tipo_servicio: ["string"],
+    tipo_embalaje: ["string"],
+    incluye_vehiculo: ["boolean"],
+    vehiculo_valor_usd: ["number"],
+    volumen_estimado_m3: ["number"],
+    idioma_cliente: ["string"],
+    codigo_descuento: ["string"],
+});
+log(`Extraction schema loaded from ${EXTRACTION_SCHEMA_PATH} (${extractionSchema.fields.length} fields).`);
+
+const volumeCatalog = await loadVolumeCatalog(VOLUME_CATALOG_PATH);
+log(`Volume catalog loaded from ${VOLUME_CATALOG_PATH} (${volumeCatalog.items.length} items, ${volumeCatalog.containers.length} container options).`);
+
+const rateTables = await loadRateTables(RATE_TABLES_PATH);
+log(`Rate tables loaded from ${RATE_TABLES_PATH} (${rateTables.lanes.length} lanes).`);
+
+const completenessRules = await loadCompletenessRules(COMPLETENESS_RULES_PATH);
+log(`Completeness rules loaded from ${COMPLETENESS_RULES_PATH} (${completenessRules.rules.length} rules).`);
+
+const speakerRoleConfig = await loadSpeakerRoleConfig(SPEAKER_ROLES_PATH);
+log(`Speaker roles loaded from ${SPEAKER_ROLES_PATH} (${speakerRoleConfig.agentLabels.length} agent labels, ${speakerRoleConfig.agentPhrases.length} agent phrases, ${speakerRoleConfig.customerPhrases.length} customer phrases).`);
+
+const routingConfig = await loadRoutingConfig(PRICING_ROUTING_PATH);
+log(`Routing config loaded from ${PRICING_ROUTING_PATH} (${Object.keys(routingConfig.teams).length} teams, ${routingConfig.rules.length} rules). Deals: ${ZOHO_CREATE_DEALS ? "on" : "off"}, Tasks: ${ZOHO_CREATE_TASKS ? "on" : "off"}.`);
+
+// Runtime validator spec and the JSON skeleton shown to the model in the extraction
+// and repair prompts. Each field is returned wrapped with its evidence, see EVIDENCE_INSTRUCTIONS.
+const PRICING_REQUEST_SCHEMA = toObjectSchema(extractionSchema);
+const PRICING_REQUEST_JSON_STRUCTURE = buildPromptStructure(extractionSchema);
+
+// Cached LLM results are keyed by the transcript given to the model and by the values
+// below. Bump a prompt version when changing its prompt (or invalidate with DELETE /llm-cache).
+const EXTRACTION_PROMPT_VERSION = "1";
+const INVENTORY_PROMPT_VERSION = "1";
+const chunkSettings = `${EXTRACTION_MAX_TRANSCRIPT_TOKENS}/${EXTRACTION_CHUNK_TOKENS}/${EXTRACTION_CHUNK_OVERLAP_TOKENS}`;
+const extractionCacheInput = {
+    version: `extraction-v${EXTRACTION_PROMPT_VERSION}:schema-${(await hashText(JSON.stringify(extractionSchema))).slice(0, 16)}:chunks-${chunkSettings}`,
+    model: `${llmProviders.primary.name}/${modelFor(llmProviders.primary, "extraction")}+${modelFor(llmProviders.primary, "repair")}`,
+};
+const inventoryCacheInput = {
+    version: `inventory-v${INVENTORY_PROMPT_VERSION}:chunks-${chunkSettings}`,
+    model: `${llmProviders.primary.name}/${modelFor(llmProviders.primary, "extraction")}`,
+};
+
+const EVIDENCE_INSTRUCTIONS = `
+Wrap EVERY field as an object {"value": <value of the type above>, "confidence": <number from 0 to 1>, "quote": "<verbatim transcript snippet supporting the value>" | null}.
+The quote must be copied exactly from the transcript (a short phrase or sentence, without the [mm:ss] time or the speaker label); use null for the quote only when the value is null.
+Example: "vehiculo_valor_usd": {"value": 20000, "confidence": 0.7, "quote": "el carro vale unos veinte mil dólares"}`;
+
+// Added to the prompts when the transcript is speaker-labelled (see renderSpeakerText).
+const SPEAKER_INSTRUCTIONS = `
+Each transcript line starts with the time in the recording, [mm:ss], and the speaker: "Agente" is our sales agent, "Cliente" is the customer; other labels are speakers whose role is unknown.
+Details about the move come from the customer. Use what the agent says only when the customer confirms it (e.g. the agent reads back an email address and the customer agrees).`;
+
+// A validated extraction: the plain values plus the model's evidence for each field.
+type ExtractedPricingRequest = {
+    details: PricingRequestDetails;
+    evidence: Record<string, RawFieldEvidence>;
+};
+
+// Parses and validates a raw model response, collecting errors instead of throwing.
+function parseExtractionResponse(gptResponse: string, logPrefix: string): ValidationResult<ExtractedPricingRequest> {
+    let parsedJson: unknown;
+    try {
+        parsedJson = parseJsonResponse(gptResponse); // Tolerates ```json fences and surrounding prose
+    } catch (parseError) {
+        return { ok: false, errors: [`Response is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`] };
+    }
+    const unwrapped = unwrapEvidenceResponse(parsedJson, Object.keys(PRICING_REQUEST_SCHEMA));
+    const validation = validateAgainstSchema<PricingRequestDetails>(unwrapped.values, PRICING_REQUEST_SCHEMA);
+    if (!validation.ok || unwrapped.errors.length > 0) {
+        return { ok: false, errors: [...(validation.ok ? [] : validation.errors), ...unwrapped.errors] };
+    }
+    const coercions = [...unwrapped.coercions, ...validation.coercions];
+    if (coercions.length > 0) {
+        log(`${logPrefix} Coerced ${coercions.length} value(s) in GPT-4 response:`, coercions.join("; "));
+    }
+    return { ok: true, value: { details: validation.value, evidence: unwrapped.evidence }, coercions };
+}
+
+async function extractPricingRequestDetails(
+    gpt: JobGptCallers,
+    transcriptionText: string,
+    logPrefix: string,
+    chunk: { index: number; count: number } | null = null,
+    speakerLabelled = false,
+): Promise<ExtractedPricingRequest> {
+    // When extracting one chunk of a long call, tell the model it only sees part of it.
+    const chunkInstructions = chunk
+        ? `This transcript is part ${chunk.index + 1} of ${chunk.count} of a longer call (parts overlap slightly). Only use information stated in this part; use null for everything else.`
+        : "";
+    // Updated prompt asking for the specific fields in JSON format
+    const gptPrompt = `
+        Analyze the following meeting transcript regarding an international move request.
+        Extract the required information and return ONLY a valid JSON object matching this structure.
+        Use null for any fields that are not mentioned or cannot be determined from the transcript.
+        ${chunkInstructions}
+        ${speakerLabelled ? SPEAKER_INSTRUCTIONS : ""}
+
+        JSON Structure:
+        ${PRICING_REQUEST_JSON_STRUCTURE}
+        ${EVIDENCE_INSTRUCTIONS}
+
+        Transcript:
+        ---
+        ${transcriptionText}
+        ---
+    `;
+    let gptResponse = await gpt.extraction`${gptPrompt}`; // Assuming gptCaller includes logging
+    log(`${logPrefix} Raw GPT-4 Response received (length: ${gptResponse?.length ?? 0}).`);
+    // log(`${logPrefix} Raw GPT-4 Response:`, gptResponse); // Optional: Log full response if needed for debug
+
+    // Validate the response; on failure, ask GPT to repair exactly the reported errors.
+    for (let repairRound = 0; ; repairRound++) {
+        log(`${logPrefix} Validating GPT-4 JSON response (repair round ${repairRound}/${EXTRACTION_MAX_REPAIR_ROUNDS})...`);
+        const validation = parseExtractionResponse(gptResponse, logPrefix);
+        if (validation.ok) {
+            log(`${logPrefix} GPT-4 JSON response passed validation.`);
+            return validation.value;
+        }
+
+        log(`${logPrefix} WARNING: GPT-4 JSON response failed validation with ${validation.errors.length} error(s):`, validation.errors.join("; "));
+        if (repairRound >= EXTRACTION_MAX_REPAIR_ROUNDS) {
+            throw new Error(`GPT-4 response failed validation after ${repairRound} repair round(s): ${validation.errors.join("; ")}`);
+        }
+
+        gptResponse = await gpt.repair`
+            The JSON below was extracted from a call transcript about an international move, but it does not match the required structure.
+            Fix ONLY the listed errors and return ONLY the corrected, valid JSON object with every key of the structure.
+            If a value cannot be expressed in the required type, use null and keep the original wording in "notas_especiales".
+
+            Required JSON Structure:
+            ${PRICING_REQUEST_JSON_STRUCTURE}
+            ${EVIDENCE_INSTRUCTIONS}
+
+            Errors:
+            ${validation.errors.map((error) => `- ${error}`).join("\n")}
+
+            Previous JSON:
+            ${gptResponse}
+        `;
+        log(`${logPrefix} GPT-4 repair response received (length: ${gptResponse?.length ?? 0}).`);
+    }
+}
+
+// Where each merged value of a chunked extraction came from; null for single-pass extractions.
+type ExtractionProvenance = {
+    chunkCount: number;
+    failedChunks: number[]; // 1-based chunk numbers whose extraction failed
+    sources: MergeResult<PricingRequestDetails>["sources"];
+    conflicts: MergeResult<PricingRequestDetails>["conflicts"];
+};
+
+// The result of an extraction, as stored in the LLM cache.
+type ExtractionResult = {
+    details: PricingRequestDetails;
+    evidence: Record<string, FieldEvidence>;
+    provenance: ExtractionProvenance | null;
+};
+
+// Extracts the pricing details, splitting oversize transcripts into overlapping chunks
+// (map) and merging the partial results so later mentions win (reduce). Every quote
+// is checked against the full transcript and, with a transcript model, located in the recording.
+async function extractPricingRequestFromTranscript(
+    gpt: JobGptCallers,
+    transcriptionText: string,
+    logPrefix: string,
+    transcriptModel: TranscriptModel | null = null,
+): Promise<ExtractionResult> {
+    const speakerLabelled = transcriptModel !== null;
+    const estimatedTokens = estimateTokens(transcriptionText);
+    if (estimatedTokens <= EXTRACTION_MAX_TRANSCRIPT_TOKENS) {
+        const { details, evidence } = await extractPricingRequestDetails(gpt, transcriptionText, logPrefix, null, speakerLabelled);
+        return { details, evidence: verifyExtractionEvidence(evidence, transcriptionText, logPrefix, transcriptModel), provenance: null };
+    }
+
+    const chunks = splitTranscriptIntoChunks(transcriptionText, {
+        maxChunkTokens: EXTRACTION_CHUNK_TOKENS,
+        overlapTokens: EXTRACTION_CHUNK_OVERLAP_TOKENS,
+    });
+    log(`${logPrefix} Transcript is ~${estimatedTokens} tokens (limit ${EXTRACTION_MAX_TRANSCRIPT_TOKENS}). Extracting in ${chunks.length} chunks...`);
+
+    const partials: (ExtractedPricingRequest | null)[] = [];
+    const failedChunks: number[] = [];
+    let lastError: unknown;
+    for (let index = 0; index < chunks.length; index++) {
+        // Sequential on purpose: parallel chunk calls would mostly hit the rate limit.
+        const chunkPrefix = `${logPrefix} [chunk ${index + 1}/${chunks.length}]`;
+        try {
+            partials.push(await extractPricingRequestDetails(gpt, chunks[index], chunkPrefix, { index, count: chunks.length }, speakerLabelled));
+        } catch (chunkError) {
+            // A rejected key or a cancelled stage fails every remaining chunk the same way.
+            if (chunkError instanceof LlmAuthError || chunkError instanceof LlmAbortError) {
+                throw chunkError;
+            }
+            log(`${chunkPrefix} CATCH ERROR extracting chunk:`, chunkError instanceof Error ? chunkError.message : String(chunkError));
+            partials.push(null);
+            failedChunks.push(index + 1);
+            lastError = chunkError;
+        }
+    }
+    if (failedChunks.length === chunks.length) {
+        throw new Error(`All ${chunks.length} transcript chunks failed extraction. Last error: ${lastError instanceof Error ? lastError.message : String(lastError)}`, { cause: lastError });
+    }
+
+    const { merged, sources, conflicts } = mergeChunkExtractions(partials.map((partial) => partial?.details ?? null), concatMergeKeys(extractionSchema));
+    if (conflicts.length > 0) {
+        log(`${logPrefix} Resolved ${conflicts.length} conflicting field(s) across chunks (latest mention wins): ${conflicts.map((conflict) => conflict.key).join(", ")}`);
+    }
+    // Each merged value keeps the evidence from the chunk that supplied it.
+    const evidence: Record<string, RawFieldEvidence> = {};
+    for (const [key, chunkNumber] of Object.entries(sources)) {
+        const chunkEvidence = partials[(chunkNumber as number) - 1]?.evidence[key];
+        if (chunkEvidence) {
+            evidence[key] = chunkEvidence;
+        }
+    }
+    return {
+        details: merged,
+        evidence: verifyExtractionEvidence(evidence, transcriptionText, logPrefix, transcriptModel),
+        provenance: { chunkCount: chunks.length, failedChunks, sources, conflicts },
+    };
+}
+
+// Checks the model's quotes against the transcript and logs the ones that were not found.
+// With a transcript model, each verified quote also gets its time and speaker.
+function verifyExtractionEvidence(
+    evidence: Record<string, RawFieldEvidence>,
+    transcriptionText: string,
+    logPrefix: string,
+    transcriptModel: TranscriptModel | null = null,
+): Record<string, FieldEvidence> {
+    const verified = verifyEvidence(evidence, transcriptionText);
+    if (transcriptModel) {
+        for (const entry of Object.values(verified)) {
+            entry.location = entry.quote && entry.quoteVerified ? locateQuote(transcriptModel, entry.quote) : null;
+        }
+    }
+    const unverified = Object.entries(verified)
+        .filter(([, entry]) => entry.quote !== null && !entry.quoteVerified)
+        .map(([key]) => key);
+    if (unverified.length > 0) {
+        log(`${logPrefix} WARNING: ${unverified.length} evidence quote(s) not found in transcript: ${unverified.join(", ")}`);
+    }
+    return verified;
+}
+
+// Extracts the itemized household inventory. Long transcripts are processed in the same
+// chunks as the pricing details; an item seen in several chunks keeps its highest quantity.
+async function extractInventoryFromTranscript(gpt: JobGptCallers, transcriptionText: string, logPrefix: string, speakerLabelled = false): Promise<InventoryItem[]> {
+    const chunks = estimateTokens(transcriptionText) <= EXTRACTION_MAX_TRANSCRIPT_TOKENS
+        ? [transcriptionText]
+        : splitTranscriptIntoChunks(transcriptionText, { maxChunkTokens: EXTRACTION_CHUNK_TOKENS, overlapTokens: EXTRACTION_CHUNK_OVERLAP_TOKENS });
+
+    const inventories: InventoryItem[][] = [];
+    for (let index = 0; index < chunks.length; index++) {
+        const chunkPrefix = chunks.length > 1 ? `${logPrefix} [chunk ${index + 1}/${chunks.length}]` : logPrefix;
+        const gptResponse = await gpt.extraction`
+            Analyze the following transcript of a call about an international move and list the household items the customer wants to move.
+            Return ONLY a JSON object: {"items": [{"item": "<item as the customer described it, e.g. sofá de 3 plazas, cama queen, cajas>", "quantity": <number>}]}
+            Use quantity 1 when no number is given. Combine repeated mentions of the same item into one entry with the final quantity.
+            Do not include the vehicle being shipped. Return {"items": []} if no items are mentioned.
+            ${speakerLabelled ? SPEAKER_INSTRUCTIONS : ""}
+
+            Transcript:
+            ---
+            ${chunks[index]}
+            ---
+        `;
+        const validation = validateInventory(parseJsonResponse(gptResponse));
+        if (!validation.ok) {
+            throw new Error(`Inventory response failed validation: ${validation.errors.join("; ")}`);
+        }
+        if (validation.coercions.length > 0) {
+            log(`${chunkPrefix} Coerced ${validation.coercions.length} inventory value(s):`, validation.coercions.join("; "));
+        }
+        log(`${chunkPrefix} Extracted ${validation.value.length} inventory item(s).`);
+        inventories.push(validation.value);
+    }
+    return mergeInventories(inventories);
+}
+
+// Formats a volume in cubic meters for the note.
+const formatM3 = (m3: number) => `${m3.toLocaleString("es-CR", { maximumFractionDigits: 2 })} m³`;
+
+// Compares the customer's own volume guess with the volume computed from the inventory.
+function buildVolumeSection(statedVolume: FieldValue | undefined, estimate: VolumeEstimate | null): string {
+    let section = `== Inventario y Volumen ==\n`;
+    if (estimate && estimate.items.length > 0) {
+        for (const item of estimate.items) {
+            section += `- ${item.quantity} x ${item.item}: ${item.volumeM3 !== null ? formatM3(item.volumeM3) : "sin volumen en catálogo"}\n`;
+        }
+        section += `Volumen calculado: ${formatM3(estimate.itemsM3)} (${formatM3(estimate.shippedM3)} con embalaje)\n`;
+        if (estimate.unmatched.length > 0) {
+            section += `⚠ Artículos sin volumen en catálogo (no incluidos): ${estimate.unmatched.join(", ")}\n`;
+        }
+    } else {
+        section += `Volumen calculado: N/A (${estimate ? "no se mencionaron artículos" : "inventario no disponible"})\n`;
+    }
+    if (typeof statedVolume === "number" || typeof statedVolume === "string") {
+        const stated = parseStatedVolume(statedVolume, volumeCatalog);
+        const display = typeof statedVolume === "number"
+            ? formatM3(statedVolume)
+            : `${stated.original}${stated.m3 !== null ? ` (≈ ${formatM3(stated.m3)})` : ""}`;
+        section += `Volumen declarado por el cliente: ${display}\n`;
+    } else {
+        section += `Volumen declarado por el cliente: N/A\n`;
+    }
+    if (estimate?.recommendation) {
+        const { count, label } = estimate.recommendation;
+        section += `Recomendación: ${count > 1 ? `${count} x ` : ""}${label}\n`;
+    }
+    return `${section}\n`;
+}
+
+// Formats a USD amount for the note.
+const formatUsd = (amount: number, currency: string) => `${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`;
+
+// Names of the charges a partial quote can leave out.
+const QUOTE_CHARGE_LABELS: Record<QuoteLine["code"], string> = {
+    base: "cargo base",
+    freight: "flete",
+    service: "servicio",
+    packing: "embalaje",
+    vehicle: "envío del vehículo",
+    vehicle_insurance: "seguro del vehículo",
+    discount: "descuento",
+};
+
+// Lists the quote lines and range, or why the request could not be priced.
+function buildQuoteSection(quote: PreliminaryQuote): string {
+    let section = `== Cotización Preliminar (estimado, no vinculante) ==\n`;
+    if (quote.status === "no_rate") {
+        section += `⚠ SIN TARIFA PARA ESTA RUTA - cotizar manualmente\n`;
+    } else if (quote.status === "insufficient_data") {
+        section += `⚠ Datos insuficientes para cotizar\n`;
+    } else {
+        if (quote.status === "partial") {
+            section += `⚠ COTIZACIÓN PARCIAL - el total no incluye: ${quote.unpriced.map((code) => QUOTE_CHARGE_LABELS[code]).join(", ")}\n`;
+        }
+        for (const line of quote.lines) {
+            section += `- ${line.description}: ${formatUsd(line.amountUsd, quote.currency)}\n`;
+        }
+        section += `Total estimado: ${formatUsd(quote.totalUsd, quote.currency)}\n`;
+        if (quote.range) {
+            section += `Rango: ${formatUsd(quote.range.lowUsd, quote.currency)} - ${formatUsd(quote.range.highUsd, quote.currency)}\n`;
+        }
+    }
+    for (const warning of quote.warnings) {
+        section += `⚠ ${warning}\n`;
+    }
+    return `${section}\n`;
+}
+
+// Lists what is still needed for a quote, followed by the drafted follow-up messages.
+function buildCompletenessSection(report: CompletenessReport): string {
+    if (!report.draft) {
+        return `== Información Faltante ==\nNinguna: la solicitud tiene todo lo necesario para cotizar.\n\n`;
+    }
+    let section = `== Información Faltante ==\n`;
+    for (const entry of report.missing) {
+        // Computed keys (e.g. volumen_calculado_m3) have no label and are not shown.
+        const labels = entry.fields.filter((key) => fieldLabel(extractionSchema, key) !== key).map((key) => fieldLabel(extractionSchema, key)).join(" / ");
+        section += `- ${labels}${entry.reason === "invalid" ? " (valor no válido, confirmar)" : ""}\n`;
+    }
+    section += `\n--- Borrador de correo (${report.draft.language}) ---\n`;
+    section += `Asunto: ${report.draft.email.subject}\n\n${report.draft.email.body}\n`;
+    section += `\n--- Borrador de WhatsApp (${report.draft.language}) ---\n${report.draft.whatsapp}\n\n`;
+    return section;
+}
+
+// Lists the Zoho records that matched the caller equally well, so the agent can link the right one.
+function buildMatchSection(match: MatchResult): string {
+    let section = `== Cliente en Zoho ==\n⚠ Varios registros coinciden con el cliente; la nota no se vinculó. Verificar y vincular manualmente:\n`;
+    for (const candidate of match.candidates) {
+        section += `- ${candidate.module} ${candidate.id}: ${candidate.name ?? "(sin nombre)"} (coincide por ${candidate.matchedOn.join(", ")}; puntaje ${candidate.score})\n`;
+    }
+    return `${section}\n`;
+}
+
+// Builds the quote calculator input from the extracted, normalized and estimated values.
+// The volume computed from the inventory is preferred over the customer's own guess.
+function buildQuoteInput(
+    details: PricingRequestDetails,
+    normalized: Record<string, NormalizedValue>,
+    volumeEstimate: VolumeEstimate | null,
+): QuoteInput {
+    const countryCode = (key: string) => {
+        const value = normalized[key];
+        return value?.kind === "country" ? value.code : null;
+    };
+    const asString = (value: FieldValue | undefined) => typeof value === "string" ? value : null;
+    const statedVolume = details.volumen_estimado_m3;
+    const statedM3 = typeof statedVolume === "number" || typeof statedVolume === "string"
+        ? parseStatedVolume(statedVolume, volumeCatalog).m3
+        : null;
+    return {
+        originCountry: countryCode("pais_origen"),
+        destinationCountry: countryCode("pais_destino"),
+        serviceType: asString(details.tipo_servicio),
+        packingType: asString(details.tipo_embalaje),
+        volumeM3: volumeEstimate && volumeEstimate.shippedM3 > 0 ? volumeEstimate.shippedM3 : statedM3,
+        includesVehicle: details.incluye_vehiculo === true,
+        vehicleValueUsd: typeof details.vehiculo_valor_usd === "number" ? details.vehiculo_valor_usd : null,
+        discountCode: asString(details.codigo_descuento),
+    };
+}
+
+// What the pricing note is built from; the optional parts are left out of the note when missing.
+type PricingNoteInput = {
+    transcriptionId: string;
+    transcriptionText: string;
+    pricingInfoJson: PricingRequestDetails | null;
+    extractionError: string | null;
+    provenance?: ExtractionProvenance | null;
+    evidence?: Record<string, FieldEvidence> | null;
+    normalized?: Record<string, NormalizedValue> | null;
+    volumeEstimate?: VolumeEstimate | null;
+    quote?: PreliminaryQuote | null;
+    completeness?: CompletenessReport | null;
+    match?: MatchResult | null;
+    attachmentNames?: string[];
+    transcriptModel?: TranscriptModel | null;
+};
+
+// Builds the Zoho note title and content, falling back to the raw transcript when extraction failed.
+function buildPricingNote({
+    transcriptionId,
+    transcriptionText,
+    pricingInfoJson,
+    extractionError,
+    provenance = null,
+    evidence = null,
+    normalized = null,
+    volumeEstimate = null,
+    quote = null,
+    completeness = null,
+    match = null,
+    attachmentNames = [],
+    transcriptModel = null,
+}: PricingNoteInput): { title: string; content: string } {
+    if (!pricingInfoJson) {
+        if (extractionError) {
+            return {
+                title: `Pricing Request from Call (HS ID: ${transcriptionId}) - GPT Error`,
+                content: `Error processing transcript with AI: ${extractionError}\n\nRaw Transcription:\n${transcriptionText}`,
+            };
+        }
+        return {
+            title: `Pricing Request from Call (HS ID: ${transcriptionId})`,
+            content: `Raw Transcription:\n${transcriptionText}`,
+        };
+    }
+
+    // Construct detailed Note Title and Content
+    const customerName = pricingInfoJson.nombre_cliente || "Unknown Customer";
+    const noteTitle = `Pricing Request: ${customerName} (HS ID: ${transcriptionId})`;
+
+    // Evidence: fields with low confidence or unverifiable quotes are flagged for the pricing agent.
+    const extractedKeys = Object.keys(pricingInfoJson).filter((key) => pricingInfoJson[key] !== null);
+    const flaggedKeys = evidence
+        ? extractedKeys.filter((key) => isLowConfidence(evidence[key], EXTRACTION_LOW_CONFIDENCE_THRESHOLD))
+        : [];
+
+    // Build the note content section by section, as defined in the schema file
+    let noteContent = match?.status === "ambiguous" ? buildMatchSection(match) : "";
+    noteContent += `== Pricing Request Details (Extracted by AI) ==\n\n`;
+    noteContent += renderFields(extractionSchema, pricingInfoJson, (key) => {
+        // Show the normalized form next to the raw value when it adds something
+        const normalizedValue = normalized?.[key] ? describeNormalizedValue(normalized[key]) : null;
+        const suffix = normalizedValue && normalizedValue !== String(pricingInfoJson[key]) ? ` (${normalizedValue})` : "";
+        return `${suffix}${flaggedKeys.includes(key) ? " ⚠" : ""}`;
+    });
+    noteContent += `\n\n`;
+    noteContent += buildVolumeSection(pricingInfoJson.volumen_estimado_m3, volumeEstimate);
+    if (quote) {
+        noteContent += buildQuoteSection(quote);
+    }
+    if (completeness) {
+        noteContent += buildCompletenessSection(completeness);
+    }
+
+    // Long calls are extracted in chunks; surface values the customer changed during the call.
+    if (provenance) {
+        noteContent += `(Transcripción larga procesada en ${provenance.chunkCount} partes`;
+        noteContent += provenance.failedChunks.length > 0 ? `; partes sin procesar: ${provenance.failedChunks.join(", ")})\n` : `)\n`;
+        for (const conflict of provenance.conflicts) {
+            const values = conflict.values.map((entry) => `"${entry.value}" (parte ${entry.chunk})`).join(" -> ");
+            noteContent += `  Valor actualizado durante la llamada - ${fieldLabel(extractionSchema, conflict.key)}: ${values}\n`;
+        }
+        noteContent += `\n`;
+    }
+    // The transcript quote and confidence behind each extracted value.
+    if (evidence) {
+        noteContent += `== Evidencia por campo ==\n`;
+        if (transcriptModel && transcriptModel.speakers.length > 0) {
+            const detection = { config: "configuración", heuristic: "automática", none: "no identificado" }[transcriptModel.agentDetection];
+            const speakers = transcriptModel.speakers.map((speaker) => `${speaker.label} = ${speakerDisplayName(transcriptModel, speaker.label)}`);
+            noteContent += `Hablantes: ${speakers.join(", ")} (agente: ${detection})\n`;
+        }
+        if (flaggedKeys.length > 0) {
+            noteContent += `⚠ Campos de baja confianza (verificar): ${flaggedKeys.map((key) => fieldLabel(extractionSchema, key)).join(", ")}\n`;
+        }
+        noteContent += `\n`;
+        for (const key of extractedKeys) {
+            const entry = evidence[key];
+            const confidence = entry ? `${Math.round(entry.confidence * 100)}%` : "N/A";
+            noteContent += `- ${fieldLabel(extractionSchema, key)}: ${pricingInfoJson[key]} (confianza ${confidence})${flaggedKeys.includes(key) ? " ⚠" : ""}\n`;
+            if (entry?.quote) {
+                // "[02:15, Cliente]" lets the agent jump to that point of the recording.
+                const location = entry.location && transcriptModel
+                    ? `[${[formatTimestamp(entry.location.start), speakerDisplayName(transcriptModel, entry.location.speaker)].filter(Boolean).join(", ")}] `
+                    : "";
+                noteContent += `  ${location}"${entry.quote}"${entry.quoteVerified ? "" : " (cita no encontrada en la transcripción)"}\n`;
+            } else {
+                noteContent += `  (sin cita)\n`;
+            }
+        }
+    } else {
+        noteContent += `--- Raw Transcription Snippet ---\n${transcriptionText.substring(0, 500)}...`; // No evidence stored (older jobs)
+    }
+    if (attachmentNames.length > 0) {
+        noteContent += `\n== Archivos adjuntos ==\nTranscripción completa y datos extraídos adjuntos al registro: ${attachmentNames.join(", ")}\n`;
+    }
+
+    return { title: noteTitle, content: noteContent };
+}
+
+
+// --- Pricing Request Pipeline (Job Queue Stages) ---
+
+// Per-job state kept alongside the stage bookkeeping. Large values (the transcript
+// and the extracted JSON) live in job blobs instead.
+type PricingJobData = {
+    extractionError: string | null;
+    inventoryError: string | null;
+    leadId: string | null; // ID of the matched Lead, Contact or Deal (see leadModule)
+    leadModule: ZohoModule | null; // Null on jobs created before Contacts and Deals were searched (Leads)
+    leadMatchStatus: MatchResult["status"] | null;
+    leadAction: "created" | "updated" | "unchanged" | null; // What the upsert stage did to the Lead
+    leadUpdatedFields: string[]; // Zoho fields written by the upsert stage
+    ownerTeam: string | null; // Team picked by the routing rules
+    ownerId: string | null; // Zoho user the Deal and Task are assigned to (null: API user)
+    dealId: string | null;
+    taskId: string | null;
+    attachmentIds: Record<string, string>; // Attachment ID per uploaded file name
+    attachmentParent: ZohoRecordRef | null; // Record the attachments were uploaded to
+    bypassLlmCache: boolean; // Set on reprocess with ?bypassCache=true: call the model even if a cached result exists
+    noteId: string | null;
+    noteTitle: string | null;
+};
+
+type ZohoRecordRef = { module: ZohoModule; id: string };
+
+// The record the attachments and the note are linked to: the matched or created Lead
+// (or Contact), else the Deal, e.g. with ZOHO_CREATE_LEADS=false. Null when there is neither.
+function noteParent(data: PricingJobData): ZohoRecordRef | null {
+    if (data.leadId) {
+        return { module: data.leadModule ?? "Leads", id: data.leadId };
+    }
+    return data.dealId ? { module: "Deals", id: data.dealId } : null;
+}
+
+// Reads a blob a previous stage must have written, failing the stage if it is missing.
+async function requireBlob(blobs: JobBlobs, name: string): Promise<string> {
+    const value = await blobs.get(name);
+    if (value === null) {
+        throw new Error(`Required job data "${name}" is missing.`);
+    }
+    return value;
+}
+
+// The transcript given to the model: speaker-labelled with timestamps when the job has
+// a transcript model, the plain text otherwise.
+async function loadPromptTranscript(blobs: JobBlobs): Promise<{ text: string; model: TranscriptModel | null }> {
+    const model = await blobs.get("transcript_model");
+    const speakerText = model ? await blobs.get("transcript_speakers") : null;
+    return speakerText
+        ? { text: speakerText, model: JSON.parse(model!) as TranscriptModel }
+        : { text: await requireBlob(blobs, "transcript"), model: null };
+}
+
+const pricingStages: StageDefinition<PricingJobData>[] = [
+    {
+        // 1. Get Transcription Text from the job's source
+        name: "transcript",
+        handler: async (job, blobs) => {
+            const { source, sourceId } = parseTranscriptJobKey(job.transcriptionId);
+            const transcriptSource = transcriptSources[source];
+            if (!transcriptSource) {
+                throw new Error(`Unknown transcript source "${source}" for ${job.transcriptionId}.`);
+            }
+            const { text, speakerText, utterances } = await transcriptSource.load(sourceId, blobs, job.id);
+            await blobs.put("transcript", text);
+            if (utterances) {
+                // Speakers and timestamps: tell the agent from the customer and label the text for the prompts.
+                const model = assignSpeakerRoles(utterances, speakerRoleConfig);
+                await blobs.put("transcript_model", JSON.stringify(model));
+                await blobs.put("transcript_speakers", renderSpeakerText(model));
+                const roles = model.speakers.map((speaker) => `${speaker.label}=${speaker.role}`).join(", ");
+                log(`[${job.id}] Transcript model: ${model.utterances.length} utterance(s), speakers: ${roles || "none"} (agent detection: ${model.agentDetection}).`);
+            } else if (speakerText) {
+                await blobs.put("transcript_speakers", speakerText);
+            }
+        },
+    },
+    {
+        // 2. Process Text with GPT-4 to extract detailed JSON.
+        // GPT failures do not fail the stage: the note falls back to the raw transcript.
+        name: "extraction",
+        maxAttempts: LLM_STAGE_MAX_ATTEMPTS,
+        handler: async (job, blobs) => {
+            const transcript = await loadPromptTranscript(blobs);
+            // The same transcript, prompt and model give the cached result without a GPT call.
+            const cacheKey = await llmCacheKey({ transcript: transcript.text, ...extractionCacheInput });
+            let result = job.data.bypassLlmCache ? null : await llmCache.get<ExtractionResult>("extraction", cacheKey);
+            if (result) {
+                log(`[${job.id}] Using cached extraction ${cacheKey.slice(0, 12)} (${extractionCacheInput.version}, ${extractionCacheInput.model}).`);
+            } else {
+                if (await usageTracker.isOverBudget(LLM_DAILY_BUDGET)) {
+                    log(`[${job.id}] Daily LLM budget of ${LLM_DAILY_BUDGET} ${llmPrices.currency} reached. Skipping GPT-4 extraction; the note will contain the raw transcript.`);
+                    return { extractionError: `Daily LLM budget of ${LLM_DAILY_BUDGET} ${llmPrices.currency} reached; extraction skipped.` };
+                }
+                log(`[${job.id}] Starting GPT-4 processing for transcription ID: ${job.transcriptionId}${transcript.model ? " (speaker-labelled)" : ""}${job.data.bypassLlmCache ? " (cache bypassed)" : ""}`);
+                const gptStartTime = Date.now();
+                const gpt = jobGptCallers(job.id, AbortSignal.timeout(LLM_STAGE_TIMEOUT_MS));
+                try {
+                    result = await extractPricingRequestFromTranscript(gpt, transcript.text, `[${job.id}]`, transcript.model);
+                    log(`[${job.id}] Successfully processed transcription with GPT-4. Time taken: ${Date.now() - gptStartTime}ms`);
+                } catch (gptError) {
+                    log(`[${job.id}] CATCH ERROR during GPT-4 processing or JSON parsing:`, gptError instanceof Error ? gptError.message : String(gptError), gptError);
+                    log(`[${job.id}] GPT Processing/Parsing failed after ${Date.now() - gptStartTime}ms`);
+                    return { extractionError: handleLlmStageFailure(job.id, job.stages.extraction.attempts, gptError) };
+                }
+                // Results with failed chunks are not cached, so the next run can complete them;
+                // neither are fallback results, as the key names the primary model.
+                if (gpt.usedFallback()) {
+                    log(`[${job.id}] Extraction answered by the fallback provider; not caching it.`);
+                } else if (!result.provenance || result.provenance.failedChunks.length === 0) {
+                    await llmCache.put("extraction", cacheKey, extractionCacheInput, result);
+                }
+            }
+
+            const { details, evidence, provenance } = result;
+            // Raw values stay in "extraction"; normalized phones, countries, dates and postal codes are stored next to them.
+            const normalized = normalizeExtraction(details, normalizationRules(extractionSchema), new Date(job.createdAt));
+            await blobs.put("extraction", JSON.stringify(details));
+            await blobs.put("extraction_normalized", JSON.stringify(normalized));
+            await blobs.put("extraction_evidence", JSON.stringify(evidence));
+            if (provenance) {
+                await blobs.put("extraction_provenance", JSON.stringify(provenance));
+            }
+            return { extractionError: null };
+        },
+    },
+    {
+        // 3. Extract the itemized inventory and estimate volume and container size.
+        // Like the extraction, GPT failures only leave the estimate out of the note.
+        name: "inventory",
+        maxAttempts: LLM_STAGE_MAX_ATTEMPTS,
+        handler: async (job, blobs) => {
+            const transcript = await loadPromptTranscript(blobs);
+            const cacheKey = await llmCacheKey({ transcript: transcript.text, ...inventoryCacheInput });
+            let inventory = job.data.bypassLlmCache ? null : await llmCache.get<InventoryItem[]>("inventory", cacheKey);
+            if (inventory) {
+                log(`[${job.id}] Using cached inventory ${cacheKey.slice(0, 12)} (${inventory.length} item(s)).`);
+            } else if (await usageTracker.isOverBudget(LLM_DAILY_BUDGET)) {
+                log(`[${job.id}] Daily LLM budget reached. Skipping inventory extraction.`);
+                return { inventoryError: `Daily LLM budget of ${LLM_DAILY_BUDGET} ${llmPrices.currency} reached; inventory extraction skipped.` };
+            }
+            try {
+                if (!inventory) {
+                    const gpt = jobGptCallers(job.id, AbortSignal.timeout(LLM_STAGE_TIMEOUT_MS));
+                    inventory = await extractInventoryFromTranscript(gpt, transcript.text, `[${job.id}]`, transcript.model !== null);
+                    if (!gpt.usedFallback()) {
+                        await llmCache.put("inventory", cacheKey, inventoryCacheInput, inventory);
+                    }
+                }
+                const estimate = estimateVolume(inventory, volumeCatalog);
+                await blobs.put("volume_estimate", JSON.stringify(estimate));
+                log(`[${job.id}] Estimated ${estimate.shippedM3} m3 from ${inventory.length} inventory item(s) (${estimate.unmatched.length} unmatched). Recommendation: ${estimate.recommendation?.containerId ?? "none"}`);
+                return { inventoryError: null };
+            } catch (inventoryError) {
+                log(`[${job.id}] CATCH ERROR during inventory extraction:`, inventoryError instanceof Error ? inventoryError.message : String(inventoryError));
+                return { inventoryError: handleLlmStageFailure(job.id, job.stages.inventory.attempts, inventoryError) };
+            }
+        },
+    },
+    {
+        // 4. Calculate the preliminary quote from the local rate tables (no external calls).
+        name: "quote",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            if (!extraction) {
+                log(`[${job.id}] Skipping quote: no extracted details.`);
+                return;
+            }
+            const normalized = await blobs.get("extraction_normalized");
+            const volumeEstimate = await blobs.get("volume_estimate");
+            const input = buildQuoteInput(
+                JSON.parse(extraction) as PricingRequestDetails,
+                normalized ? JSON.parse(normalized) as Record<string, NormalizedValue> : {},
+                volumeEstimate ? JSON.parse(volumeEstimate) as VolumeEstimate : null,
+            );
+            const quote = calculateQuote(input, rateTables);
+            await blobs.put("quote", JSON.stringify(quote));
+            log(`[${job.id}] Preliminary quote: ${quote.status}${quote.range ? ` (${quote.range.lowUsd}-${quote.range.highUsd} ${quote.currency})` : ""}${quote.warnings.length > 0 ? `, ${quote.warnings.length} warning(s)` : ""}.`);
+        },
+    },
+    {
+        // 5. Check which information is still needed for a quote and draft the follow-up message.
+        name: "completeness",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            if (!extraction) {
+                log(`[${job.id}] Skipping completeness check: no extracted details.`);
+                return;
+            }
+            const details = JSON.parse(extraction) as PricingRequestDetails;
+            const normalized = await blobs.get("extraction_normalized");
+            const volumeEstimate = await blobs.get("volume_estimate");
+            const estimate = volumeEstimate ? JSON.parse(volumeEstimate) as VolumeEstimate : null;
+            // The customer's language as reported by the model, or guessed from the transcript.
+            const language = resolveLanguage(
+                typeof details.idioma_cliente === "string" ? details.idioma_cliente : detectLanguage(await requireBlob(blobs, "transcript")),
+                completenessRules,
+            );
+            const report = assessCompleteness(
+                { ...details, volumen_calculado_m3: estimate && estimate.shippedM3 > 0 ? estimate.shippedM3 : null },
+                normalized ? JSON.parse(normalized) as Record<string, NormalizedValue> : {},
+                completenessRules,
+                { language, customerName: details.nombre_cliente },
+            );
+            await blobs.put("completeness", JSON.stringify(report));
+            log(`[${job.id}] Completeness check: ${report.complete ? "complete" : `${report.missing.length} item(s) missing, follow-up drafted in "${language}"`}.`);
+        },
+    },
+    {
+        // 6. Find the caller's Lead, Contact or Deal
+        name: "leadLookup",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            const pricingInfoJson = extraction ? JSON.parse(extraction) as PricingRequestDetails : null;
+            if (!pricingInfoJson?.correo_electronico && !pricingInfoJson?.numero_telefono && !pricingInfoJson?.nombre_cliente) {
+                log(`[${job.id}] Skipping Lead search as no email, phone or name was extracted by GPT-4.`);
+                return { leadId: null, leadModule: null, leadMatchStatus: null };
+            }
+            const normalizedBlob = await blobs.get("extraction_normalized");
+            const normalizedPhone = normalizedBlob ? (JSON.parse(normalizedBlob) as Record<string, NormalizedValue>).numero_telefono : undefined;
+            const phoneVariants = normalizedPhone?.kind === "phone"
+                ? phoneSearchVariants(normalizedPhone)
+                : pricingInfoJson.numero_telefono ? [pricingInfoJson.numero_telefono.replace(/\D/g, "")] : [];
+            log(`[${job.id}] Attempting to find the caller in Zoho...`);
+            const match = await findZohoMatch(job.id, {
+                email: pricingInfoJson.correo_electronico,
+                phoneVariants,
+                name: pricingInfoJson.nombre_cliente,
+                city: typeof pricingInfoJson.ciudad_origen === "string" ? pricingInfoJson.ciudad_origen : null,
+            });
+            await blobs.put("lead_match", JSON.stringify(match));
+            if (match.status === "ambiguous") {
+                log(`[${job.id}] WARNING: Ambiguous match, not linking: ${match.candidates.map((candidate) => `${candidate.module} ${candidate.id} (${candidate.score})`).join(", ")}`);
+            } else if (match.match) {
+                log(`[${job.id}] Found matching ${match.match.module} ID: ${match.match.id} (matched on ${match.match.matchedOn.join(", ")})`);
+            } else {
+                log(`[${job.id}] No matching Lead, Contact or Deal found.`);
+            }
+            return { leadId: match.match?.id ?? null, leadModule: match.match?.module ?? null, leadMatchStatus: match.status };
+        },
+    },
+    {
+        // 7. Create the Lead when none matched, or fill in its empty fields. Non-empty
+        // fields are only overwritten as ZOHO_LEAD_OVERWRITE_POLICY allows.
+        name: "leadUpsert",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            if (!extraction) {
+                log(`[${job.id}] Skipping Lead upsert: no extracted details.`);
+                return;
+            }
+            if (job.data.leadMatchStatus === "ambiguous") {
+                log(`[${job.id}] Skipping Lead upsert: the caller matched several records.`);
+                return { leadAction: null };
+            }
+            if (job.data.leadId && (job.data.leadModule ?? "Leads") !== "Leads") {
+                // Returning customers are left as they are in Contacts/Deals; no duplicate Lead is created.
+                log(`[${job.id}] Skipping Lead upsert: the caller matched ${job.data.leadModule} ${job.data.leadId}.`);
+                return { leadAction: null };
+            }
+            const details = JSON.parse(extraction) as PricingRequestDetails;
+            const normalized = await blobs.get("extraction_normalized");
+            const evidenceBlob = await blobs.get("extraction_evidence");
+            const evidence = evidenceBlob ? JSON.parse(evidenceBlob) as Record<string, FieldEvidence> : {};
+            const mappings = zohoFieldMappings(extractionSchema);
+            const fields = buildLeadFields(details, normalized ? JSON.parse(normalized) as Record<string, NormalizedValue> : {}, mappings);
+
+            const existing = job.data.leadId ? await getZohoLead(job.id, job.data.leadId) : null;
+            if (existing && job.data.leadId) {
+                const plan = planLeadUpdate(existing, fields, ZOHO_LEAD_OVERWRITE_POLICY, (zohoField) => {
+                    const key = mappedKey(mappings, zohoField);
+                    return !!key && !isLowConfidence(evidence[key], EXTRACTION_LOW_CONFIDENCE_THRESHOLD);
+                });
+                if (plan.kept.length > 0) {
+                    log(`[${job.id}] Kept existing Lead value(s) under policy "${ZOHO_LEAD_OVERWRITE_POLICY}": ${plan.kept.join(", ")}`);
+                }
+                const changedFields = Object.keys(plan.changes);
+                if (changedFields.length === 0) {
+                    log(`[${job.id}] Lead ${job.data.leadId} is already up to date.`);
+                    return { leadAction: "unchanged", leadUpdatedFields: [] };
+                }
+                await saveZohoLead(job.id, plan.changes, job.data.leadId);
+                return { leadAction: "updated", leadUpdatedFields: changedFields };
+            }
+            if (job.data.leadId) {
+                log(`[${job.id}] WARNING: Matched Lead ${job.data.leadId} no longer exists.`);
+            }
+
+            if (!ZOHO_CREATE_LEADS || Object.keys(fields).length === 0) {
+                log(`[${job.id}] Not creating a Lead (${ZOHO_CREATE_LEADS ? "no mapped values were extracted" : "ZOHO_CREATE_LEADS=false"}).`);
+                return { leadId: null, leadAction: null };
+            }
+            // Last_Name is mandatory for Zoho Leads.
+            const leadFields = {
+                Last_Name: `Sin nombre (HS ${job.transcriptionId})`,
+                ...fields,
+                ...(ZOHO_LEAD_SOURCE ? { Lead_Source: ZOHO_LEAD_SOURCE } : {}),
+            };
+            const leadId = await saveZohoLead(job.id, leadFields);
+            return { leadId, leadModule: "Leads", leadAction: "created", leadUpdatedFields: Object.keys(leadFields) };
+        },
+    },
+    {
+        // 8. Pick the pricing agent for the Deal and Task
+        name: "routing",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            if ((!ZOHO_CREATE_DEALS && !ZOHO_CREATE_TASKS) || !extraction) {
+                return;
+            }
+            const normalized = await blobs.get("extraction_normalized");
+            const input = buildQuoteInput(
+                JSON.parse(extraction) as PricingRequestDetails,
+                normalized ? JSON.parse(normalized) as Record<string, NormalizedValue> : {},
+                null,
+            );
+            const assignment = await ownerRouter.assignOwner(input);
+            log(`[${job.id}] Routed to team "${assignment.team}" (${assignment.ruleIndex === null ? "default team" : `rule ${assignment.ruleIndex}`}), owner: ${assignment.ownerId ?? "API user"}.`);
+            return { ownerTeam: assignment.team, ownerId: assignment.ownerId };
+        },
+    },
+    {
+        // 9. Create the "Pricing Requested" Deal (linked to the Contact for returning customers)
+        name: "deal",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            if (!ZOHO_CREATE_DEALS || !extraction) {
+                return;
+            }
+            const details = JSON.parse(extraction) as PricingRequestDetails;
+            const quoteBlob = await blobs.get("quote");
+            const quote = quoteBlob ? JSON.parse(quoteBlob) as PreliminaryQuote : null;
+            const closingDate = new Date(job.createdAt);
+            closingDate.setUTCDate(closingDate.getUTCDate() + routingConfig.deal.closingInDays);
+            const dealId = await createZohoRecord(job.id, "Deals", {
+                Deal_Name: routingConfig.deal.name.replace("{name}", details.nombre_cliente || "Cliente sin nombre"),
+                Stage: routingConfig.deal.stage,
+                Closing_Date: closingDate.toISOString().slice(0, 10),
+                Description: `Solicitud de cotización de la llamada HS ID ${job.transcriptionId}.`,
+                ...(quote?.status === "quoted" ? { Amount: quote.totalUsd } : {}),
+                ...(job.data.ownerId ? { Owner: { id: job.data.ownerId } } : {}),
+                ...(job.data.leadId && job.data.leadModule === "Contacts" ? { Contact_Name: { id: job.data.leadId } } : {}),
+            });
+            return { dealId };
+        },
+    },
+    {
+        // 10. Create the pricing Task, attached to the Deal or else to the matched record
+        name: "task",
+        handler: async (job, blobs) => {
+            const extraction = await blobs.get("extraction");
+            if (!ZOHO_CREATE_TASKS || !extraction) {
+                return;
+            }
+            const details = JSON.parse(extraction) as PricingRequestDetails;
+            const completenessBlob = await blobs.get("completeness");
+            const completeness = completenessBlob ? JSON.parse(completenessBlob) as CompletenessReport : null;
+            // Tasks reference Contacts through Who_Id and Leads/Deals through What_Id.
+            const parentModule = job.data.dealId ? "Deals" : job.data.leadModule ?? "Leads";
+            const parentId = job.data.dealId ?? job.data.leadId;
+            const taskId = await createZohoRecord(job.id, "Tasks", {
+                Subject: routingConfig.task.subject.replace("{name}", details.nombre_cliente || "Cliente sin nombre"),
+                Due_Date: addBusinessDays(new Date(job.createdAt), routingConfig.task.dueInBusinessDays),
+                Priority: routingConfig.task.priority,
+                Status: "Not Started",
+                Description: completeness && !completeness.complete
+                    ? `Falta información (${completeness.missing.length}); ver el borrador de seguimiento en la nota.`
+                    : `Solicitud completa; ver la nota de la llamada HS ID ${job.transcriptionId}.`,
+                ...(job.data.ownerId ? { Owner: { id: job.data.ownerId } } : {}),
+                ...(job.data.leadId && job.data.leadModule === "Contacts" ? { Who_Id: { id: job.data.leadId } } : {}),
+                ...(parentId && parentModule !== "Contacts" ? { What_Id: { id: parentId }, $se_module: parentModule } : {}),
+            });
+            return { taskId };
+        },
+    },
+    {
+        // 11. Attach the full transcript(s) and the extraction JSON to the record the note
+        // is linked to (see noteParent).
+        name: "attachments",
+        handler: async (job, blobs) => {
+            const parent = noteParent(job.data);
+            if (!ZOHO_ATTACH_FILES || !parent) {
+                log(`[${job.id}] Skipping attachments (${ZOHO_ATTACH_FILES ? "no linked record" : "ZOHO_ATTACH_FILES=false"}).`);
+                return { attachmentIds: {}, attachmentParent: null };
+            }
+
+            const fileId = job.transcriptionId.replace(/[^\w.-]/g, "_"); // "upload:abc" -> "upload_abc"
+            const files: { name: string; content: string; contentType: string }[] = [
+                { name: `transcripcion_${fileId}.txt`, content: await requireBlob(blobs, "transcript"), contentType: "text/plain" },
+            ];
+            const speakerText = await blobs.get("transcript_speakers");
+            if (speakerText) {
+                files.push({ name: `transcripcion_${fileId}_hablantes.txt`, content: speakerText, contentType: "text/plain" });
+            }
+            const extraction = await blobs.get("extraction");
+            if (extraction) {
+                const extractionFile: Record<string, unknown> = { extraction: JSON.parse(extraction) };
+                for (const [key, blobName] of [["normalized", "extraction_normalized"], ["evidence", "extraction_evidence"], ["provenance", "extraction_provenance"]]) {
+                    const value = await blobs.get(blobName);
+                    extractionFile[key] = value ? JSON.parse(value) : null;
+                }
+                files.push({ name: `extraccion_${fileId}.json`, content: JSON.stringify(extractionFile, null, 2), contentType: "application/json" });
+            }
+
+            // Uploads are recorded one by one so a retry does not attach the same file twice.
+            const progressBlob = await blobs.get("attachment_progress");
+            const progress = progressBlob ? JSON.parse(progressBlob) as { parent: ZohoRecordRef; ids: Record<string, string> } : null;
+            const attachmentIds = progress?.parent.module === parent.module && progress.parent.id === parent.id ? progress.ids : {};
+            for (const file of files) {
+                if (attachmentIds[file.name]) {
+                    continue;
+                }
+                attachmentIds[file.name] = await uploadZohoAttachment(job.id, parent.module, parent.id, file.name, file.content, file.contentType);
+                await blobs.put("attachment_progress", JSON.stringify({ parent, ids: attachmentIds }));
+            }
+            return { attachmentIds, attachmentParent: parent };
+        },
+    },
+    {
+        // 12. Create the Zoho Note, linked to the same record as the attachments
+        name: "note",
+        handler: async (job, blobs) => {
+            const parent = noteParent(job.data);
+            const attachedToParent = parent !== null && job.data.attachmentParent?.module === parent.module && job.data.attachmentParent.id === parent.id;
+            const transcript = await loadPromptTranscript(blobs); // With timestamps, so the raw fallback can be followed in the recording
+            const extraction = await blobs.get("extraction");
+            const pricingInfoJson = extraction ? JSON.parse(extraction) as PricingRequestDetails : null;
+            const provenance = await blobs.get("extraction_provenance");
+            const evidence = await blobs.get("extraction_evidence");
+            const normalized = await blobs.get("extraction_normalized");
+            const volumeEstimate = await blobs.get("volume_estimate");
+            const quote = await blobs.get("quote");
+            const completeness = await blobs.get("completeness");
+            const match = await blobs.get("lead_match");
+            const { title, content } = buildPricingNote({
+                transcriptionId: job.transcriptionId,
+                transcriptionText: transcript.text,
+                pricingInfoJson,
+                extractionError: job.data.extractionError,
+                provenance: provenance ? JSON.parse(provenance) as ExtractionProvenance : null,
+                evidence: evidence ? JSON.parse(evidence) as Record<string, FieldEvidence> : null,
+                normalized: normalized ? JSON.parse(normalized) as Record<string, NormalizedValue> : null,
+                volumeEstimate: volumeEstimate ? JSON.parse(volumeEstimate) as VolumeEstimate : null,
+                quote: quote ? JSON.parse(quote) as PreliminaryQuote : null,
+                completeness: completeness ? JSON.parse(completeness) as CompletenessReport : null,
+                match: match ? JSON.parse(match) as MatchResult : null,
+                attachmentNames: attachedToParent ? Object.keys(job.data.attachmentIds ?? {}) : [],
+                transcriptModel: transcript.model,
+            });
+            log(`[${job.id}] Constructed Note Title: "${title}"`);
+            log(`[${job.id}] Starting Zoho Note creation (linking to ${parent ? `${parent.module}: ${parent.id}` : "no record"})...`);
+            const noteId = await createZohoNote(job.id, title, content, parent?.id ?? null, parent?.module);
+            return { noteId, noteTitle: title };
+        },
+    },
+];
+
+// --- Instantiate Job Queue ---
+const kv = await Deno.openKv(KV_PATH);
+const usageTracker = createUsageTracker(kv, llmPrices);
+const llmCache = createLlmCache(kv, { ttlMs: LLM_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000 });
+log(`LLM result cache: ${llmCache.enabled ? `${LLM_CACHE_TTL_DAYS} day(s) TTL` : "disabled"}.`);
+const ownerRouter = createOwnerRouter(kv, routingConfig);
+const webhookVerifier = createWebhookVerifier(kv, HAPPY_SCRIBE_WEBHOOK_SECRET, WEBHOOK_TIMESTAMP_TOLERANCE_SECONDS);
+const zohoAuth = createZohoAuth(kv, {
+    clientId: ZOHO_CLIENT_ID!,
+    clientSecret: ZOHO_CLIENT_SECRET!,
+    refreshToken: ZOHO_REFRESH_TOKEN!,
+    accountsUrl: ZOHO_ACCOUNTS_URL,
+    defaultApiDomain: ZOHO_API_DOMAIN,
+    request: httpRequest,
+});
+const jobQueue = createJobQueue<PricingJobData>(kv, pricingStages, () => ({
+    extractionError: null,
+    inventoryError: null,
+    leadId: null,
+    leadModule: null,
+    leadMatchStatus: null,
+    leadAction: null,
+    leadUpdatedFields: [],
+    ownerTeam: null,
+    ownerId: null,
+    dealId: null,
+    taskId: null,
+    attachmentIds: {},
+    attachmentParent: null,
+    bypassLlmCache: false,
+    noteId: null,
+    noteTitle: null,
+}), { inputBlobs: [SUBMITTED_TRANSCRIPT_BLOB] });
+jobQueue.start().catch((error) => {
+    log(`ERROR: Job queue worker stopped:`, error instanceof Error ? error.message : String(error));
+});
+log("Job queue worker started.");
+
+// Queues a transcript that did not come from Happy Scribe, stored with its job.
+async function submitTranscript(source: string, transcript: SubmittedTranscript, id: string) {
+    const { job, outcome } = await jobQueue.enqueueJob(transcriptJobKey(source, id), {
+        [SUBMITTED_TRANSCRIPT_BLOB]: JSON.stringify(transcript),
+    });
+    log(`[${job.id}] ${source} transcript ${transcript.fileName ?? id} (${transcript.format}): ${outcome} (status: ${job.status}).`);
+    return { jobId: job.id, transcriptionId: job.transcriptionId, outcome, status: job.status, fileName: transcript.fileName };
+}
+
+// --- Instantiate Transcript Upload API ---
+const handleTranscriptRequest = createTranscriptApi({
+    token: ADMIN_API_TOKEN,
+    submit: (transcript, id) => submitTranscript("upload", transcript, id),
+});
+
+// --- Watch the Local Transcript Directory ---
+if (TRANSCRIPTS_WATCH_DIR) {
+    watchTranscriptDirectory(TRANSCRIPTS_WATCH_DIR, async (transcript, id) => {
+        await submitTranscript("directory", transcript, id);
+    }).catch((error) => {
+        log(`ERROR: Transcript directory watcher stopped:`, error instanceof Error ? error.message : String(error));
+    });
+}
+
+// --- Instantiate Admin API ---
+const handleAdminRequest = createAdminApi(jobQueue, {
+    token: ADMIN_API_TOKEN,
+    zohoStages: ["leadLookup", "leadUpsert", "routing", "deal", "task", "attachments", "note"],
+    bypassCacheData: { bypassLlmCache: true },
+    loadJobDetails: async (job) => {
+        const extraction = await jobQueue.getBlob(job.id, "extraction");
+        const provenance = await jobQueue.getBlob(job.id, "extraction_provenance");
+        const evidence = await jobQueue.getBlob(job.id, "extraction_evidence");
+        const normalized = await jobQueue.getBlob(job.id, "extraction_normalized");
+        const volumeEstimate = await jobQueue.getBlob(job.id, "volume_estimate");
+        const quote = await jobQueue.getBlob(job.id, "quote");
+        const completeness = await jobQueue.getBlob(job.id, "completeness");
+        const leadMatch = await jobQueue.getBlob(job.id, "lead_match");
+        const transcriptModel = await jobQueue.getBlob(job.id, "transcript_model");
+        return {
+            transcript: await jobQueue.getBlob(job.id, "transcript"),
+            transcriptModel: transcriptModel ? JSON.parse(transcriptModel) as TranscriptModel : null,
+            llmUsage: await usageTracker.jobTotals(job.id),
+            extraction: extraction ? JSON.parse(extraction) as PricingRequestDetails : null,
+            extractionNormalized: normalized ? JSON.parse(normalized) as Record<string, NormalizedValue> : null,
+            extractionEvidence: evidence ? JSON.parse(evidence) as Record<string, FieldEvidence> : null,
+            extractionProvenance: provenance ? JSON.parse(provenance) as ExtractionProvenance : null,
+            volumeEstimate: volumeEstimate ? JSON.parse(volumeEstimate) as VolumeEstimate : null,
+            quote: quote ? JSON.parse(quote) as PreliminaryQuote : null,
+            completeness: completeness ? JSON.parse(completeness) as CompletenessReport : null,
+            leadMatch: leadMatch ? JSON.parse(leadMatch) as MatchResult : null,
+        };
+    },
+});
+
+// --- Instantiate Quote API ---
+const handleQuoteRequest = createQuoteApi({
+    token: ADMIN_API_TOKEN,
+    rateTables,
+    loadQuote: async (transcriptionId) => {
+        const job = await jobQueue.getJobByTranscriptionId(transcriptionId);
+        const quote = job ? await jobQueue.getBlob(job.id, "quote") : null;
+        return quote ? JSON.parse(quote) as PreliminaryQuote : null;
+    },
+});
+
+// --- Instantiate LLM Cache API ---
+const handleCacheRequest = createCacheApi({
+    token: ADMIN_API_TOKEN,
+    cache: llmCache,
+    kinds: ["extraction", "inventory"],
+});
+
+// --- Instantiate LLM Usage API ---
+const handleUsageRequest = createUsageApi({
+    token: ADMIN_API_TOKEN,
+    tracker: usageTracker,
+    dailyBudget: LLM_DAILY_BUDGET,
+});
+if (!ADMIN_API_TOKEN) {
+    log("WARNING: ADMIN_API_TOKEN is not set. The /jobs, /quotes, /usage, /llm-cache and /transcripts admin routes are disabled.");
+}
+
+
 // --- Web Server Logic ---
 log(`HTTP server starting on http://localhost:${PORT}`);
 
@@ -323,13 +1627,28 @@ await serve(async (req: Request) => {
         log(`[${requestId}] Processing Happy Scribe Webhook...`);
         const startTime = Date.now();
         try {
-            const webhookPayload = await req.json();
-            log(`[${requestId}] Webhook Payload Received:`, JSON.stringify(webhookPayload));
+            // Read the raw body first: the signature is computed over the exact bytes sent.
+            const rawBody = await req.text();
+
+            // --- Verify the webhook signature before doing any work ---
+            // Rejects unsigned, tampered, stale or replayed requests so nobody who
+            // finds the URL can trigger transcript downloads, GPT calls or Zoho notes.
+            const verification = await webhookVerifier.verify(req.headers, rawBody);
+            if (!verification.valid) {
+                log(`[${requestId}] ERROR: Webhook signature verification failed: ${verification.reason}`);
+                return new Response("Unauthorized", { status: 401 });
+            }
+            log(`[${requestId}] Webhook signature verified.`);
 
-            // --- IMPORTANT: Verify the webhook signature if Happy Scribe provides one ---
-            // This ensures the request is actually from Happy Scribe.
-            // Check Happy Scribe documentation for webhook security. If they provide
-            // a signature header, you should validate it here using a shared secret.
+            // A correctly signed body can still be malformed; that is the sender's error, not ours.
+            let webhookPayload;
+            try {
+                webhookPayload = JSON.parse(rawBody);
+            } catch (parseError) {
+                log(`[${requestId}] ERROR: Webhook body is not valid JSON: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+                return new Response("Invalid JSON body", { status: 400 });
+            }
+            log(`[${requestId}] Webhook Payload Received:`, JSON.stringify(webhookPayload));
 
             // Assuming the payload contains the transcription ID
             // Adjust based on the actual payload structure from Happy Scribe docs!
@@ -346,193 +1665,28 @@ await serve(async (req: Request) => {
             }
             log(`[${requestId}] Extracted Transcription ID: ${transcriptionId}`);
 
-            // 1. Get Transcription Text
-            const transcriptionText = await getHappyScribeTranscriptionText(transcriptionId);
-
-            // 2. Process Text with GPT-4 to extract detailed JSON
-            // Define the expected structure based on user feedback
-            interface PricingRequestDetails {
-                nombre_cliente: string | null;
-                correo_electronico: string | null;
-                numero_telefono: string | null; // Include country code if possible
-                ciudad_origen: string | null;
-                codigo_postal_origen: string | null;
-                pais_origen: string | null;
-                ciudad_destino: string | null;
-                codigo_postal_destino: string | null;
-                pais_destino: string | null;
-                tipo_servicio: string | null; // e.g., puerta a puerta, puerto a puerto
-                tipo_embalaje: string | null; // e.g., profesional completo, parcial, PBO
-                fecha_estimada_mudanza: string | null;
-                volumen_estimado_m3: number | string | null; // Allow string for "1x20ft" etc.
-                contenido_general: string | null; // e.g., muebles, cajas, vehiculo
-                incluye_vehiculo: boolean | null;
-                vehiculo_marca_modelo_ano: string | null;
-                vehiculo_valor_usd: number | null;
-                vehiculo_condicion: string | null; // nuevo o usado
-                vehiculo_titulo_registro: boolean | null; // a nombre del cliente?
-                relacion_destino: string | null; // ciudadano, residente, visa, etc.
-                referido_por: string | null;
-                codigo_descuento: string | null;
-                notas_especiales: string | null;
-            }
-
-            let pricingInfoJson: PricingRequestDetails | null = null; // Initialize as null
-            let noteTitle = `Pricing Request from Call (HS ID: ${transcriptionId})`; // Default title
-            let noteContent = `Raw Transcription:\n${transcriptionText}`; // Default content if GPT fails
-
-            // --- GPT Processing Block ---
-            log(`[${requestId}] Starting GPT-4 processing for transcription ID: ${transcriptionId}`);
-            const gptStartTime = Date.now();
-            try {
-                // Updated prompt asking for the specific fields in JSON format
-                const gptPrompt = `
-                    Analyze the following meeting transcript regarding an international move request.
-                    Extract the required information and return ONLY a valid JSON object matching this structure.
-                    Use null for any fields that are not mentioned or cannot be determined from the transcript.
-
-                    JSON Structure:
-                    {
-                      "nombre_cliente": "string | null",
-                      "correo_electronico": "string | null",
-                      "numero_telefono": "string | null",
-                      "ciudad_origen": "string | null",
-                      "codigo_postal_origen": "string | null",
-                      "pais_origen": "string | null",
-                      "ciudad_destino": "string | null",
-                      "codigo_postal_destino": "string | null",
-                      "pais_destino": "string | null",
-                      "tipo_servicio": "string | null",
-                      "tipo_embalaje": "string | null",
-                      "fecha_estimada_mudanza": "string | null",
-                      "volumen_estimado_m3": "number | string | null",
-                      "contenido_general": "string | null",
-                      "incluye_vehiculo": "boolean | null",
-                      "vehiculo_marca_modelo_ano": "string | null",
-                      "vehiculo_valor_usd": "number | null",
-                      "vehiculo_condicion": "string | null",
-                      "vehiculo_titulo_registro": "boolean | null",
-                      "relacion_destino": "string | null",
-                      "referido_por": "string | null",
-                      "codigo_descuento": "string | null",
-                      "notas_especiales": "string | null"
-                    }
-
-                    Transcript:
-                    ---
-                    ${transcriptionText}
-                    ---
-                `;
-                const gptResponse = await gptCaller`${gptPrompt}`; // Assuming gptCaller includes logging
-                log(`[${requestId}] Raw GPT-4 Response received (length: ${gptResponse?.length ?? 0}).`);
-                // log(`[${requestId}] Raw GPT-4 Response:`, gptResponse); // Optional: Log full response if needed for debug
-
-                log(`[${requestId}] Attempting to parse GPT-4 JSON response...`);
-                // Attempt to parse the JSON response
-                const parsedJson = JSON.parse(gptResponse);
-                log(`[${requestId}] Successfully parsed GPT-4 JSON response.`);
-
-                // Basic validation if it's an object (can add more specific checks later)
-                if (typeof parsedJson === 'object' && parsedJson !== null) {
-                    pricingInfoJson = parsedJson as PricingRequestDetails; // Type assertion
-                    log(`[${requestId}] GPT-4 JSON assigned to pricingInfoJson.`);
-
-                    // Construct detailed Note Title and Content
-                    const customerName = pricingInfoJson.nombre_cliente || "Unknown Customer";
-                    noteTitle = `Pricing Request: ${customerName} (HS ID: ${transcriptionId})`;
-
-                    // Build the note content field by field
-                    noteContent = `== Pricing Request Details (Extracted by AI) ==\n\n`;
-                    noteContent += `Nombre Cliente: ${pricingInfoJson.nombre_cliente ?? 'N/A'}\n`;
-                    noteContent += `Correo Electrónico: ${pricingInfoJson.correo_electronico ?? 'N/A'}\n`;
-                    noteContent += `Teléfono: ${pricingInfoJson.numero_telefono ?? 'N/A'}\n\n`;
-
-                    noteContent += `Origen: ${pricingInfoJson.ciudad_origen ?? 'N/A'} (${pricingInfoJson.codigo_postal_origen ?? 'N/A'}), ${pricingInfoJson.pais_origen ?? 'N/A'}\n`;
-                    noteContent += `Destino: ${pricingInfoJson.ciudad_destino ?? 'N/A'} (${pricingInfoJson.codigo_postal_destino ?? 'N/A'}), ${pricingInfoJson.pais_destino ?? 'N/A'}\n\n`;
-
-                    noteContent += `Tipo Servicio: ${pricingInfoJson.tipo_servicio ?? 'N/A'}\n`;
-                    noteContent += `Tipo Embalaje: ${pricingInfoJson.tipo_embalaje ?? 'N/A'}\n`;
-                    noteContent += `Fecha Estimada Mudanza: ${pricingInfoJson.fecha_estimada_mudanza ?? 'N/A'}\n`;
-                    noteContent += `Volumen Estimado: ${pricingInfoJson.volumen_estimado_m3 ?? 'N/A'}\n`;
-                    noteContent += `Contenido General: ${pricingInfoJson.contenido_general ?? 'N/A'}\n\n`;
-
-                    noteContent += `Incluye Vehículo: ${pricingInfoJson.incluye_vehiculo === null ? 'N/A' : pricingInfoJson.incluye_vehiculo ? 'Sí' : 'No'}\n`;
-                    if (pricingInfoJson.incluye_vehiculo) {
-                        noteContent += `  Vehículo: ${pricingInfoJson.vehiculo_marca_modelo_ano ?? 'N/A'}\n`;
-                        noteContent += `  Valor (USD): ${pricingInfoJson.vehiculo_valor_usd ?? 'N/A'}\n`;
-                        noteContent += `  Condición: ${pricingInfoJson.vehiculo_condicion ?? 'N/A'}\n`;
-                        noteContent += `  Título a Nombre Cliente: ${pricingInfoJson.vehiculo_titulo_registro === null ? 'N/A' : pricingInfoJson.vehiculo_titulo_registro ? 'Sí' : 'No'}\n`;
-                    }
-                    noteContent += `\n`;
-
-                    noteContent += `Relación con Destino: ${pricingInfoJson.relacion_destino ?? 'N/A'}\n`;
-                    noteContent += `Referido Por: ${pricingInfoJson.referido_por ?? 'N/A'}\n`;
-                    noteContent += `Código Descuento: ${pricingInfoJson.codigo_descuento ?? 'N/A'}\n\n`;
-
-                    noteContent += `Notas Especiales:\n${pricingInfoJson.notas_especiales ?? 'N/A'}\n\n`;
-                    noteContent += `--- Raw Transcription Snippet ---\n${transcriptionText.substring(0, 500)}...`; // Keep snippet
-
-                    log(`[${requestId}] Successfully processed transcription with GPT-4. Time taken: ${Date.now() - gptStartTime}ms`);
-                    log(`[${requestId}] Constructed Note Title: "${noteTitle}"`);
-                    // log(`[${requestId}] Constructed Note Content:`, noteContent); // Optional: Log full content if needed
-                } else {
-                     log(`[${requestId}] ERROR: GPT-4 response was not a valid JSON object after parsing. Parsed type: ${typeof parsedJson}`);
-                     throw new Error("GPT-4 response was not a valid JSON object.");
-                }
-
-            } catch (gptError) {
-                log(`[${requestId}] CATCH ERROR during GPT-4 processing or JSON parsing:`, gptError instanceof Error ? gptError.message : String(gptError), gptError);
-                log(`[${requestId}] GPT Processing/Parsing failed after ${Date.now() - gptStartTime}ms`);
-                // Use default title/content if GPT processing fails
-                noteTitle = `Pricing Request from Call (HS ID: ${transcriptionId}) - GPT Error`;
-                noteContent = `Error processing transcript with AI: ${gptError.message}\n\nRaw Transcription:\n${transcriptionText}`;
-                // Ensure pricingInfoJson remains null or default if error occurs before assignment
-                pricingInfoJson = null;
-            }
-
-            // --- Find Lead ID ---
-            let leadId: string | null = null;
-            if (pricingInfoJson?.correo_electronico || pricingInfoJson?.numero_telefono) {
-                log(`[${requestId}] Attempting to find Zoho Lead ID...`);
-                leadId = await findZohoLeadId(pricingInfoJson.correo_electronico, pricingInfoJson.numero_telefono);
-                if (leadId) {
-                    log(`[${requestId}] Found matching Lead ID: ${leadId}`);
-                } else {
-                    log(`[${requestId}] No matching Lead found or search failed.`);
-                }
-            } else {
-                 log(`[${requestId}] Skipping Lead search as no email or phone was extracted by GPT-4.`);
-            }
-
-
-            // --- Zoho Note Creation Block ---
-            log(`[${requestId}] Starting Zoho Note creation (linking to Lead: ${leadId ?? 'No'})...`);
-            const zohoStartTime = Date.now();
-            try {
-                // Pass the found leadId (or null) to createZohoNote
-                await createZohoNote(noteTitle, noteContent, leadId);
-                log(`[${requestId}] Zoho Note creation attempt finished. Time taken: ${Date.now() - zohoStartTime}ms`);
-            } catch (zohoError) {
-                 log(`[${requestId}] CATCH ERROR during Zoho Note creation:`, zohoError instanceof Error ? zohoError.message : String(zohoError), zohoError);
-                 log(`[${requestId}] Zoho Note creation failed after ${Date.now() - zohoStartTime}ms`);
-                 // Decide if we should still return 200 to Happy Scribe or an error
-                 // Returning 500 might cause retries which could call GPT again.
-                 // Returning 200 acknowledges receipt but means the Zoho step failed silently to the caller.
-                 // Let's return 500 for now to indicate partial failure.
-                 throw new Error("Webhook processed, but failed during Zoho Note creation.", { cause: zohoError });
+            // Persist the job and acknowledge right away; the queue worker runs the
+            // transcript, GPT and Zoho stages with their own retries.
+            // Jobs are keyed by transcription ID, so repeated deliveries never call GPT
+            // or create a second note: finished jobs return their prior result, and
+            // dead-lettered jobs resume from the stage that failed.
+            const { job, outcome } = await jobQueue.enqueueJob(String(transcriptionId));
+            // Only a saved job uses up the nonce; a failure above returns 500 and the retry is accepted.
+            if (!await webhookVerifier.markConsumed(verification.replayKey)) {
+                log(`[${requestId}] Webhook delivery was already consumed by a concurrent request.`);
             }
-
-
-            const totalTime = Date.now() - startTime;
-            log(`[${requestId}] Successfully processed webhook for transcription ${transcriptionId}. Total time: ${totalTime}ms`);
-            return new Response("Webhook processed successfully", { status: 200 });
+            log(`[${requestId}] Job ${job.id} for transcription ${transcriptionId}: ${outcome} (status: ${job.status}). Time taken: ${Date.now() - startTime}ms`);
+            return Response.json(
+                { jobId: job.id, transcriptionId: job.transcriptionId, outcome, status: job.status, result: job.data },
+                { status: job.status === "completed" ? 200 : 202 },
+            );
 
         } catch (error) {
             const totalTime = Date.now() - startTime;
             log(`[${requestId}] CATCH ERROR processing webhook:`, error instanceof Error ? error.message : String(error), error);
             log(`[${requestId}] Webhook processing failed after ${totalTime}ms`);
             // Return 500 so Happy Scribe might retry (check their retry policy)
-            return new Response(`Internal Server Error: ${error.message}`, { status: 500 });
+            return new Response(`Internal Server Error: ${error instanceof Error ? error.message : String(error)}`, { status: 500 });
         }
     }
 
@@ -542,6 +1696,36 @@ await serve(async (req: Request) => {
         return new Response("OK", { status: 200 });
     }
 
+    // --- Admin Job Routes (/jobs...) ---
+    const adminResponse = await handleAdminRequest(req, requestId);
+    if (adminResponse) {
+        return adminResponse;
+    }
+
+    // --- Transcript Upload Route (/transcripts) ---
+    const transcriptResponse = await handleTranscriptRequest(req, requestId);
+    if (transcriptResponse) {
+        return transcriptResponse;
+    }
+
+    // --- Quote Routes (/quotes...) ---
+    const quoteResponse = await handleQuoteRequest(req, requestId);
+    if (quoteResponse) {
+        return quoteResponse;
+    }
+
+    // --- LLM Usage Routes (/usage...) ---
+    const usageResponse = await handleUsageRequest(req, requestId);
+    if (usageResponse) {
+        return usageResponse;
+    }
+
+    // --- LLM Cache Routes (/llm-cache) ---
+    const cacheResponse = await handleCacheRequest(req, requestId);
+    if (cacheResponse) {
+        return cacheResponse;
+    }
+
     // --- Default: Not Found ---
     log(`[${requestId}] Path not handled: ${path}. Returning 404.`);
     return new Response("Not Found", { status: 404 });
@@ -0,0 +1,99 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  findCountry,
+  normalizeCountry,
+  normalizeDate,
+  normalizeExtraction,
+  normalizePhone,
+  normalizePostalCode,
+  phoneSearchVariants,
+} from "./normalization.ts";
+
+const REFERENCE_DATE = new Date("2026-10-19T15:00:00Z");
+
+/**
+ * The start and end of a normalized date, for compact assertions.
+ */
+function dateRange(value: string): [string | null, string | null] {
+  const { start, end } = normalizeDate(value, REFERENCE_DATE);
+  return [start, end];
+}
+
+Deno.test("findCountry matches names, aliases, long forms and codes", () => {
+  assertEquals(findCountry("Costa Rica")?.code, "CR");
+  assertEquals(findCountry("EE.UU.")?.code, "US");
+  assertEquals(findCountry("Estados Unidos de América")?.code, "US");
+  assertEquals(findCountry("Reino Unido de Gran Bretaña e Irlanda del Norte")?.code, "GB");
+  assertEquals(findCountry("República de Panamá")?.code, "PA");
+  assertEquals(findCountry("deu")?.code, "DE");
+  assertEquals(findCountry("Atlantis"), null);
+});
+
+Deno.test("normalizeCountry returns the ISO code and English name", () => {
+  assertEquals(normalizeCountry("España"), { kind: "country", original: "España", code: "ES", name: "Spain" });
+  assertEquals(normalizeCountry("Narnia").code, null);
+});
+
+Deno.test("normalizePhone adds the calling code of the hinted country", () => {
+  assertEquals(normalizePhone("8888-7777", "CR").e164, "+50688887777");
+  assertEquals(normalizePhone("00 506 8888 7777", null).e164, "+50688887777");
+  assertEquals(normalizePhone("506 8888 7777 11", "CR").e164, "+5068888777711");
+  assertEquals(normalizePhone("8888-7777", null).valid, false);
+});
+
+Deno.test("phoneSearchVariants lists the spellings a CRM may store", () => {
+  assertEquals(phoneSearchVariants(normalizePhone("8888-7777", "CR")), ["+50688887777", "50688887777", "88887777"]);
+});
+
+Deno.test("normalizePostalCode checks the country format", () => {
+  assertEquals(normalizePostalCode(" 10101 ", "CR").valid, true);
+  assertEquals(normalizePostalCode("k1a 0b1", "CA"), { kind: "postalCode", original: "k1a 0b1", normalized: "K1A 0B1", country: "CA", valid: true });
+  assertEquals(normalizePostalCode("1234", "CR").valid, false);
+  assertEquals(normalizePostalCode("1234", null).valid, null);
+});
+
+Deno.test("normalizeDate parses exact dates", () => {
+  assertEquals(dateRange("2026-12-05"), ["2026-12-05", "2026-12-05"]);
+  assertEquals(dateRange("15/08/2027"), ["2027-08-15", "2027-08-15"]);
+  assertEquals(dateRange("08/15/2027"), ["2027-08-15", "2027-08-15"]);
+  assertEquals(dateRange("15 de julio"), ["2027-07-15", "2027-07-15"]);
+  assertEquals(dateRange("May 5, 2027"), ["2027-05-05", "2027-05-05"]);
+});
+
+Deno.test("normalizeDate parses months and parts of months", () => {
+  assertEquals(dateRange("diciembre"), ["2026-12-01", "2026-12-31"]);
+  assertEquals(dateRange("finales de febrero"), ["2027-02-21", "2027-02-28"]);
+  assertEquals(normalizeDate("mediados de noviembre", REFERENCE_DATE).precision, "range");
+  assertEquals(dateRange("mayo"), ["2027-05-01", "2027-05-31"]);
+  assertEquals(dateRange("may 2027"), ["2027-05-01", "2027-05-31"]);
+});
+
+Deno.test("normalizeDate ignores month abbreviations used as words", () => {
+  assertEquals(dateRange("may be next year"), [null, null]);
+  assertEquals(dateRange("we may move in 2027"), ["2027-01-01", "2027-12-31"]);
+  assertEquals(dateRange("envío por mar"), [null, null]);
+  assertEquals(dateRange("they called two weeks ago, maybe in march"), ["2027-03-01", "2027-03-31"]);
+});
+
+Deno.test("normalizeDate resolves relative dates from the reference date", () => {
+  assertEquals(dateRange("el próximo mes"), ["2026-11-01", "2026-11-30"]);
+  assertEquals(dateRange("en 3 meses"), ["2027-01-01", "2027-01-31"]);
+  assertEquals(dateRange("next week"), ["2026-10-26", "2026-11-01"]);
+  assertEquals(normalizeDate("cuando se pueda", REFERENCE_DATE).precision, null);
+});
+
+Deno.test("normalizeExtraction uses the normalized country as hint", () => {
+  const normalized = normalizeExtraction(
+    { pais_origen: "Costa Rica", numero_telefono: "8888 7777", codigo_postal: "10101", fecha: null },
+    [
+      { key: "numero_telefono", normalize: "phone", countryField: "pais_origen" },
+      { key: "codigo_postal", normalize: "postalCode", countryField: "pais_origen" },
+      { key: "pais_origen", normalize: "country" },
+      { key: "fecha", normalize: "date" },
+    ],
+    REFERENCE_DATE
+  );
+  assertEquals(Object.keys(normalized).sort(), ["codigo_postal", "numero_telefono", "pais_origen"]);
+  assertEquals(normalized.numero_telefono.kind === "phone" && normalized.numero_telefono.e164, "+50688887777");
+  assertEquals(normalized.codigo_postal.kind === "postalCode" && normalized.codigo_postal.valid, true);
+});
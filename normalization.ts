@@ -0,0 +1,461 @@
+// --- Types ---
+export type NormalizerKind = "phone" | "country" | "date" | "postalCode";
+
+export type CountryInfo = {
+  /** ISO-3166 alpha-2 code. */
+  code: string;
+  /** ISO-3166 alpha-3 code. */
+  alpha3: string;
+  name: string;
+  /** Other spellings and languages the model may use. */
+  aliases: string[];
+  callingCode: string;
+  /** Postal code format, or null where codes are not used or not checked. */
+  postalCode: RegExp | null;
+};
+
+export type NormalizedPhone = {
+  kind: "phone";
+  original: string;
+  e164: string | null;
+  countryHint: string | null;
+  valid: boolean;
+};
+
+export type NormalizedCountry = {
+  kind: "country";
+  original: string;
+  code: string | null;
+  name: string | null;
+};
+
+export type NormalizedDate = {
+  kind: "date";
+  original: string;
+  /** ISO date (YYYY-MM-DD) of the first possible day, or null if not understood. */
+  start: string | null;
+  /** ISO date of the last possible day; equals start for exact dates. */
+  end: string | null;
+  precision: "day" | "range" | "month" | "year" | null;
+};
+
+export type NormalizedPostalCode = {
+  kind: "postalCode";
+  original: string;
+  normalized: string;
+  country: string | null;
+  /** Null when the country is unknown or has no known format. */
+  valid: boolean | null;
+};
+
+export type NormalizedValue =
+  | NormalizedPhone
+  | NormalizedCountry
+  | NormalizedDate
+  | NormalizedPostalCode;
+
+/**
+ * Which normalizer to run on a field, and which country field (for phones and
+ * postal codes) provides the country hint.
+ */
+export type NormalizationRule = {
+  key: string;
+  normalize: NormalizerKind;
+  countryField?: string;
+};
+
+// --- Constants ---
+const E164_REGEX = /^\+[1-9]\d{7,14}$/;
+
+const COUNTRIES: CountryInfo[] = [
+  { code: "CR", alpha3: "CRI", name: "Costa Rica", aliases: ["república de costa rica", "republic of costa rica"], callingCode: "506", postalCode: /^\d{5}$/ },
+  { code: "US", alpha3: "USA", name: "United States", aliases: ["estados unidos", "estados unidos de america", "estados unidos de norteamerica", "eeuu", "ee uu", "eua", "usa", "united states of america", "america"], callingCode: "1", postalCode: /^\d{5}(-\d{4})?$/ },
+  { code: "CA", alpha3: "CAN", name: "Canada", aliases: ["canadá"], callingCode: "1", postalCode: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/ },
+  { code: "MX", alpha3: "MEX", name: "Mexico", aliases: ["méxico", "estados unidos mexicanos", "united mexican states"], callingCode: "52", postalCode: /^\d{5}$/ },
+  { code: "GT", alpha3: "GTM", name: "Guatemala", aliases: [], callingCode: "502", postalCode: /^\d{5}$/ },
+  { code: "SV", alpha3: "SLV", name: "El Salvador", aliases: ["salvador"], callingCode: "503", postalCode: /^\d{4}$/ },
+  { code: "HN", alpha3: "HND", name: "Honduras", aliases: [], callingCode: "504", postalCode: /^\d{5}$/ },
+  { code: "NI", alpha3: "NIC", name: "Nicaragua", aliases: [], callingCode: "505", postalCode: /^\d{5}$/ },
+  { code: "PA", alpha3: "PAN", name: "Panama", aliases: ["panamá", "república de panamá", "republic of panama"], callingCode: "507", postalCode: /^\d{4}$/ },
+  { code: "CO", alpha3: "COL", name: "Colombia", aliases: [], callingCode: "57", postalCode: /^\d{6}$/ },
+  { code: "VE", alpha3: "VEN", name: "Venezuela", aliases: [], callingCode: "58", postalCode: /^\d{4}$/ },
+  { code: "EC", alpha3: "ECU", name: "Ecuador", aliases: [], callingCode: "593", postalCode: /^\d{6}$/ },
+  { code: "PE", alpha3: "PER", name: "Peru", aliases: ["perú"], callingCode: "51", postalCode: /^\d{5}$/ },
+  { code: "BO", alpha3: "BOL", name: "Bolivia", aliases: [], callingCode: "591", postalCode: null },
+  { code: "CL", alpha3: "CHL", name: "Chile", aliases: [], callingCode: "56", postalCode: /^\d{7}$/ },
+  { code: "AR", alpha3: "ARG", name: "Argentina", aliases: [], callingCode: "54", postalCode: /^([A-Z]\d{4}[A-Z]{3}|\d{4})$/ },
+  { code: "UY", alpha3: "URY", name: "Uruguay", aliases: [], callingCode: "598", postalCode: /^\d{5}$/ },
+  { code: "PY", alpha3: "PRY", name: "Paraguay", aliases: [], callingCode: "595", postalCode: /^\d{4,6}$/ },
+  { code: "BR", alpha3: "BRA", name: "Brazil", aliases: ["brasil"], callingCode: "55", postalCode: /^\d{5}-?\d{3}$/ },
+  { code: "DO", alpha3: "DOM", name: "Dominican Republic", aliases: ["república dominicana", "republica dominicana", "the dominican republic"], callingCode: "1", postalCode: /^\d{5}$/ },
+  { code: "PR", alpha3: "PRI", name: "Puerto Rico", aliases: [], callingCode: "1", postalCode: /^\d{5}(-\d{4})?$/ },
+  { code: "CU", alpha3: "CUB", name: "Cuba", aliases: [], callingCode: "53", postalCode: /^\d{5}$/ },
+  { code: "JM", alpha3: "JAM", name: "Jamaica", aliases: [], callingCode: "1", postalCode: null },
+  { code: "ES", alpha3: "ESP", name: "Spain", aliases: ["españa", "espana"], callingCode: "34", postalCode: /^\d{5}$/ },
+  { code: "PT", alpha3: "PRT", name: "Portugal", aliases: [], callingCode: "351", postalCode: /^\d{4}-\d{3}$/ },
+  { code: "FR", alpha3: "FRA", name: "France", aliases: ["francia"], callingCode: "33", postalCode: /^\d{5}$/ },
+  { code: "DE", alpha3: "DEU", name: "Germany", aliases: ["alemania", "deutschland", "república federal de alemania", "federal republic of germany"], callingCode: "49", postalCode: /^\d{5}$/ },
+  { code: "IT", alpha3: "ITA", name: "Italy", aliases: ["italia"], callingCode: "39", postalCode: /^\d{5}$/ },
+  { code: "GB", alpha3: "GBR", name: "United Kingdom", aliases: ["reino unido", "reino unido de gran bretaña e irlanda del norte", "inglaterra", "england", "uk", "great britain", "gran bretaña", "united kingdom of great britain and northern ireland"], callingCode: "44", postalCode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/ },
+  { code: "IE", alpha3: "IRL", name: "Ireland", aliases: ["irlanda"], callingCode: "353", postalCode: /^[A-Z]\d{2} ?[A-Z\d]{4}$/ },
+  { code: "NL", alpha3: "NLD", name: "Netherlands", aliases: ["países bajos", "paises bajos", "holanda", "holland", "the netherlands", "reino de los países bajos", "kingdom of the netherlands"], callingCode: "31", postalCode: /^\d{4} ?[A-Z]{2}$/ },
+  { code: "BE", alpha3: "BEL", name: "Belgium", aliases: ["bélgica", "belgica"], callingCode: "32", postalCode: /^\d{4}$/ },
+  { code: "CH", alpha3: "CHE", name: "Switzerland", aliases: ["suiza"], callingCode: "41", postalCode: /^\d{4}$/ },
+  { code: "AT", alpha3: "AUT", name: "Austria", aliases: [], callingCode: "43", postalCode: /^\d{4}$/ },
+  { code: "SE", alpha3: "SWE", name: "Sweden", aliases: ["suecia"], callingCode: "46", postalCode: /^\d{3} ?\d{2}$/ },
+  { code: "NO", alpha3: "NOR", name: "Norway", aliases: ["noruega"], callingCode: "47", postalCode: /^\d{4}$/ },
+  { code: "DK", alpha3: "DNK", name: "Denmark", aliases: ["dinamarca"], callingCode: "45", postalCode: /^\d{4}$/ },
+  { code: "FI", alpha3: "FIN", name: "Finland", aliases: ["finlandia"], callingCode: "358", postalCode: /^\d{5}$/ },
+  { code: "PL", alpha3: "POL", name: "Poland", aliases: ["polonia"], callingCode: "48", postalCode: /^\d{2}-\d{3}$/ },
+  { code: "AU", alpha3: "AUS", name: "Australia", aliases: [], callingCode: "61", postalCode: /^\d{4}$/ },
+  { code: "NZ", alpha3: "NZL", name: "New Zealand", aliases: ["nueva zelanda"], callingCode: "64", postalCode: /^\d{4}$/ },
+  { code: "JP", alpha3: "JPN", name: "Japan", aliases: ["japón", "japon"], callingCode: "81", postalCode: /^\d{3}-?\d{4}$/ },
+  { code: "CN", alpha3: "CHN", name: "China", aliases: [], callingCode: "86", postalCode: /^\d{6}$/ },
+  { code: "KR", alpha3: "KOR", name: "South Korea", aliases: ["corea del sur", "corea", "korea", "república de corea", "republic of korea"], callingCode: "82", postalCode: /^\d{5}$/ },
+  { code: "IN", alpha3: "IND", name: "India", aliases: [], callingCode: "91", postalCode: /^\d{6}$/ },
+  { code: "AE", alpha3: "ARE", name: "United Arab Emirates", aliases: ["emiratos árabes unidos", "emiratos arabes unidos", "uae", "emiratos"], callingCode: "971", postalCode: null },
+  { code: "IL", alpha3: "ISR", name: "Israel", aliases: [], callingCode: "972", postalCode: /^\d{7}$/ },
+  { code: "ZA", alpha3: "ZAF", name: "South Africa", aliases: ["sudáfrica", "sudafrica"], callingCode: "27", postalCode: /^\d{4}$/ },
+];
+
+const MONTHS: Record<string, number> = {
+  enero: 1, ene: 1, january: 1, jan: 1,
+  febrero: 2, feb: 2, february: 2,
+  marzo: 3, mar: 3, march: 3,
+  abril: 4, abr: 4, april: 4, apr: 4,
+  mayo: 5, may: 5,
+  junio: 6, jun: 6, june: 6,
+  julio: 7, jul: 7, july: 7,
+  agosto: 8, ago: 8, august: 8, aug: 8,
+  septiembre: 9, setiembre: 9, sep: 9, sept: 9, set: 9, september: 9,
+  octubre: 10, oct: 10, october: 10,
+  noviembre: 11, nov: 11, november: 11,
+  diciembre: 12, dic: 12, december: 12, dec: 12,
+};
+const MONTH_PATTERN = Object.keys(MONTHS).sort((a, b) => b.length - a.length).join("|");
+// Month abbreviations that are also common words ("may be", "por mar", "two weeks ago"): only
+// read as a month next to a day or a year.
+const AMBIGUOUS_MONTHS = ["may", "mar", "set", "ago"];
+
+// Parts of a month, as day ranges (an end of 31 means "last day of the month").
+const MONTH_PARTS: { pattern: RegExp; startDay: number; endDay: number }[] = [
+  { pattern: /\b(principios|inicios|comienzos|early|beginning)\b/, startDay: 1, endDay: 10 },
+  { pattern: /\b(mediados|mid|middle)\b/, startDay: 11, endDay: 20 },
+  { pattern: /\b(finales|fines|final|late|end)\b/, startDay: 21, endDay: 31 },
+  { pattern: /\b(primera quincena|first half)\b/, startDay: 1, endDay: 15 },
+  { pattern: /\b(segunda quincena|second half)\b/, startDay: 16, endDay: 31 },
+];
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases and strips accents and punctuation for lookups.
+ */
+function simplify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[.,]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Formats a calendar date as YYYY-MM-DD.
+ */
+function isoDate(year: number, month: number, day: number): string {
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+}
+
+/**
+ * Returns the number of days in a month.
+ */
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Checks that a day exists in the given month.
+ */
+function isValidDay(year: number, month: number, day: number): boolean {
+  return month >= 1 && month <= 12 && day >= 1 && day <= daysInMonth(year, month);
+}
+
+/**
+ * Picks the year for a month mentioned without one: this year, or next year if
+ * the month has already passed.
+ */
+function inferYear(month: number, referenceDate: Date): number {
+  const referenceYear = referenceDate.getUTCFullYear();
+  return month < referenceDate.getUTCMonth() + 1 ? referenceYear + 1 : referenceYear;
+}
+
+/**
+ * Expands a 2-digit year.
+ */
+function fullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Looks up a country by name (Spanish or English), alias or ISO code.
+ */
+export function findCountry(value: string): CountryInfo | null {
+  const simplified = simplify(value);
+  const upper = value.trim().toUpperCase();
+  return (
+    COUNTRIES.find(
+      (country) =>
+        country.code === upper ||
+        country.alpha3 === upper ||
+        simplify(country.name) === simplified ||
+        country.aliases.some((alias) => simplify(alias) === simplified)
+    ) ?? null
+  );
+}
+
+/**
+ * Normalizes a country name or code to its ISO-3166 alpha-2 code and English name.
+ */
+export function normalizeCountry(value: string): NormalizedCountry {
+  const country = findCountry(value);
+  return {
+    kind: "country",
+    original: value,
+    code: country?.code ?? null,
+    name: country?.name ?? null,
+  };
+}
+
+/**
+ * Normalizes a phone number to E.164. Numbers without an international prefix
+ * get the calling code of the hint country (after dropping a national trunk "0").
+ * @param value The phone number as extracted.
+ * @param countryHint ISO alpha-2 code of the country the number most likely belongs to.
+ */
+export function normalizePhone(value: string, countryHint: string | null): NormalizedPhone {
+  const trimmed = value.trim();
+  const digits = trimmed.replace(/\D/g, "");
+  let e164: string | null = null;
+
+  if (trimmed.startsWith("+")) {
+    e164 = `+${digits}`;
+  } else if (digits.startsWith("00")) {
+    e164 = `+${digits.slice(2)}`;
+  } else {
+    const country = countryHint ? COUNTRIES.find((candidate) => candidate.code === countryHint) : undefined;
+    if (country) {
+      // National numbers are rarely 11+ digits, so a long number starting with the
+      // calling code most likely already includes it.
+      if (digits.startsWith(country.callingCode) && digits.length >= 11) {
+        e164 = `+${digits}`;
+      } else {
+        const national = country.code === "IT" ? digits : digits.replace(/^0/, "");
+        e164 = `+${country.callingCode}${national}`;
+      }
+    }
+  }
+
+  const valid = e164 !== null && E164_REGEX.test(e164);
+  return {
+    kind: "phone",
+    original: value,
+    e164: valid ? e164 : null,
+    countryHint,
+    valid,
+  };
+}
+
+/**
+ * Spellings a phone number may be stored under in a CRM: E.164 with and
+ * without "+", the national number, and the digits as extracted.
+ */
+export function phoneSearchVariants(phone: NormalizedPhone): string[] {
+  const variants = new Set<string>();
+  if (phone.e164) {
+    variants.add(phone.e164);
+    variants.add(phone.e164.slice(1));
+    const country = phone.countryHint ? COUNTRIES.find((candidate) => candidate.code === phone.countryHint) : undefined;
+    if (country && phone.e164.startsWith(`+${country.callingCode}`)) {
+      variants.add(phone.e164.slice(country.callingCode.length + 1));
+    }
+  }
+  const digits = phone.original.replace(/\D/g, "");
+  if (digits) {
+    variants.add(digits);
+  }
+  return [...variants];
+}
+
+/**
+ * Checks a postal code against the format of its country.
+ * @param value The postal code as extracted.
+ * @param countryCode ISO alpha-2 code of the country, if known.
+ */
+export function normalizePostalCode(value: string, countryCode: string | null): NormalizedPostalCode {
+  const normalized = value.trim().toUpperCase().replace(/\s+/g, " ");
+  const country = countryCode ? COUNTRIES.find((candidate) => candidate.code === countryCode) : undefined;
+  return {
+    kind: "postalCode",
+    original: value,
+    normalized,
+    country: countryCode,
+    valid: country?.postalCode ? country.postalCode.test(normalized) : null,
+  };
+}
+
+/**
+ * Turns a fuzzy move date ("finales de julio", "15/08/2026", "next month") into
+ * an ISO date or date range, keeping the original text.
+ * @param value The date as extracted.
+ * @param referenceDate When the call happened; resolves relative dates and missing years.
+ */
+export function normalizeDate(value: string, referenceDate: Date): NormalizedDate {
+  const text = simplify(value);
+  const result = (start: string | null, end: string | null, precision: NormalizedDate["precision"]): NormalizedDate =>
+    ({ kind: "date", original: value, start, end, precision });
+  const monthRange = (year: number, month: number, startDay = 1, endDay = 31, precision: NormalizedDate["precision"] = "month") =>
+    result(isoDate(year, month, startDay), isoDate(year, month, Math.min(endDay, daysInMonth(year, month))), precision);
+
+  // 1. ISO date: 2026-07-15
+  let match = text.match(/\b(\d{4})-(\d{1,2})-(\d{1,2})\b/);
+  if (match) {
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    if (isValidDay(year, month, day)) {
+      return result(isoDate(year, month, day), isoDate(year, month, day), "day");
+    }
+  }
+
+  // 2. Numeric date: day first (15/07/2026), unless only month-first is valid (07/15/2026).
+  match = text.match(/\b(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})\b/);
+  if (match) {
+    const [first, second, year] = [Number(match[1]), Number(match[2]), fullYear(Number(match[3]))];
+    if (isValidDay(year, second, first)) {
+      return result(isoDate(year, second, first), isoDate(year, second, first), "day");
+    }
+    if (isValidDay(year, first, second)) {
+      return result(isoDate(year, first, second), isoDate(year, first, second), "day");
+    }
+  }
+
+  // 3. Day and month name: "15 de julio (de 2026)", "july 15(, 2026)", "15 july"
+  match =
+    text.match(new RegExp(`\\b(\\d{1,2}) (?:de )?(${MONTH_PATTERN})\\b(?: (?:de |del )?(\\d{4}))?`)) ??
+    text.match(new RegExp(`\\b(${MONTH_PATTERN}) (\\d{1,2})\\b(?: (\\d{4}))?`));
+  if (match) {
+    const dayFirst = /^\d/.test(match[1]);
+    const day = Number(dayFirst ? match[1] : match[2]);
+    const month = MONTHS[dayFirst ? match[2] : match[1]];
+    const year = match[3] ? Number(match[3]) : inferYear(month, referenceDate);
+    if (isValidDay(year, month, day)) {
+      return result(isoDate(year, month, day), isoDate(year, month, day), "day");
+    }
+  }
+
+  // 4. Month name, optionally with a part of the month and a year: "finales de julio 2026"
+  match = [...text.matchAll(new RegExp(`\\b(${MONTH_PATTERN})\\b(?: (?:de |del )?(\\d{4}))?`, "g"))]
+    .find((candidate) => candidate[2] || !AMBIGUOUS_MONTHS.includes(candidate[1])) ?? null;
+  if (match) {
+    const month = MONTHS[match[1]];
+    const year = match[2] ? Number(match[2]) : inferYear(month, referenceDate);
+    const part = MONTH_PARTS.find((candidate) => candidate.pattern.test(text));
+    return part
+      ? monthRange(year, month, part.startDay, part.endDay, "range")
+      : monthRange(year, month);
+  }
+
+  // 5. Relative expressions: "el proximo mes", "next month", "en 3 meses", "next week"
+  const referenceYear = referenceDate.getUTCFullYear();
+  const referenceMonth = referenceDate.getUTCMonth() + 1;
+  match = text.match(/\b(?:en|in) (\d{1,2}) (?:meses|months)\b/);
+  if (match || /\b(proximo mes|mes que viene|siguiente mes|next month)\b/.test(text)) {
+    const offset = match ? Number(match[1]) : 1;
+    const target = new Date(Date.UTC(referenceYear, referenceMonth - 1 + offset, 1));
+    return monthRange(target.getUTCFullYear(), target.getUTCMonth() + 1);
+  }
+  if (/\b(proxima semana|semana que viene|siguiente semana|next week)\b/.test(text)) {
+    const start = new Date(referenceDate.getTime());
+    start.setUTCDate(start.getUTCDate() + ((8 - start.getUTCDay()) % 7 || 7)); // Next Monday
+    const end = new Date(start.getTime());
+    end.setUTCDate(end.getUTCDate() + 6);
+    return result(start.toISOString().slice(0, 10), end.toISOString().slice(0, 10), "range");
+  }
+
+  // 6. Year only: "en 2027"
+  match = text.match(/\b(20\d{2})\b/);
+  if (match) {
+    return result(`${match[1]}-01-01`, `${match[1]}-12-31`, "year");
+  }
+
+  return result(null, null, null);
+}
+
+/**
+ * Runs the configured normalizers over extracted values. Countries are
+ * normalized first so phone numbers and postal codes can use them as hints.
+ * Null or non-string values are skipped.
+ * @param values The extracted values (left untouched).
+ * @param rules Which normalizer to apply to which field.
+ * @param referenceDate When the call happened.
+ * @returns The normalized value for each field that could be processed.
+ */
+export function normalizeExtraction(
+  values: Record<string, unknown>,
+  rules: NormalizationRule[],
+  referenceDate: Date
+): Record<string, NormalizedValue> {
+  const normalized: Record<string, NormalizedValue> = {};
+  const ordered = [
+    ...rules.filter((rule) => rule.normalize === "country"),
+    ...rules.filter((rule) => rule.normalize !== "country"),
+  ];
+
+  for (const rule of ordered) {
+    const value = values[rule.key];
+    if (typeof value !== "string" && typeof value !== "number") {
+      continue;
+    }
+    const text = String(value);
+    const hint = rule.countryField ? normalized[rule.countryField] : undefined;
+    const countryCode = hint?.kind === "country" ? hint.code : null;
+
+    switch (rule.normalize) {
+      case "country":
+        normalized[rule.key] = normalizeCountry(text);
+        break;
+      case "phone":
+        normalized[rule.key] = normalizePhone(text, countryCode);
+        break;
+      case "postalCode":
+        normalized[rule.key] = normalizePostalCode(text, countryCode);
+        break;
+      case "date":
+        normalized[rule.key] = normalizeDate(text, referenceDate);
+        break;
+    }
+  }
+  return normalized;
+}
+
+/**
+ * Short human-readable summary of a normalized value for notes, or null when
+ * normalization did not change or add anything worth showing.
+ */
+export function describeNormalizedValue(value: NormalizedValue): string | null {
+  switch (value.kind) {
+    case "phone":
+      return value.e164 ?? "no se pudo normalizar";
+    case "country":
+      return value.code ? `${value.code} - ${value.name}` : "país no reconocido";
+    case "date":
+      if (!value.start) {
+        return "fecha no reconocida";
+      }
+      return value.start === value.end ? value.start : `${value.start} a ${value.end}`;
+    case "postalCode":
+      return value.valid === false ? `formato no válido para ${value.country}` : null;
+  }
+}
@@ -0,0 +1,211 @@
+import type { QuoteInput } from "./quoteCalculator.ts";
+
+// --- Constants ---
+const ROUND_ROBIN_PREFIX = "routing_round_robin";
+
+// --- Types ---
+
+/**
+ * What a pricing request is routed on. Same shape as the quote input, so the
+ * values built for the quote are reused.
+ */
+export type RoutingInput = Pick<QuoteInput, "destinationCountry" | "serviceType" | "includesVehicle">;
+
+/**
+ * A rule applies when every condition it sets holds.
+ */
+export type RoutingCondition = {
+  /** ISO alpha-2 codes. */
+  destinationCountries?: string[];
+  /** Phrases matched case- and accent-insensitively against the service type. */
+  serviceTypeContains?: string[];
+  includesVehicle?: boolean;
+};
+
+export type RoutingRule = {
+  team: string;
+  when: RoutingCondition;
+};
+
+export type RoutingConfig = {
+  deal: {
+    /**
+     * "{name}" is replaced by the customer's name. It must come first: returning
+     * callers are matched to their Deals with `Deal_Name:starts_with:<name>`.
+     */
+    name: string;
+    stage: string;
+    closingInDays: number;
+  };
+  task: {
+    /** "{name}" is replaced by the customer's name. */
+    subject: string;
+    dueInBusinessDays: number;
+    priority: string;
+  };
+  /** Zoho user IDs per team. An empty team leaves the owner to Zoho (the API user). */
+  teams: Record<string, string[]>;
+  defaultTeam: string;
+  /** Checked in order; the first matching rule picks the team. */
+  rules: RoutingRule[];
+};
+
+export type OwnerAssignment = {
+  team: string;
+  /** Null when the team has no members. */
+  ownerId: string | null;
+  /** Index of the rule that picked the team, or null for the default team. */
+  ruleIndex: number | null;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases and strips accents for condition matching.
+ */
+function simplify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Checks a rule's conditions against a request.
+ */
+function conditionHolds(condition: RoutingCondition, input: RoutingInput): boolean {
+  if (condition.includesVehicle !== undefined && input.includesVehicle !== condition.includesVehicle) {
+    return false;
+  }
+  if (condition.destinationCountries && !condition.destinationCountries.includes(input.destinationCountry ?? "")) {
+    return false;
+  }
+  if (condition.serviceTypeContains) {
+    const serviceType = simplify(input.serviceType ?? "");
+    if (!condition.serviceTypeContains.some((phrase) => serviceType.includes(simplify(phrase)))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Validates the parsed routing file, collecting every problem found.
+ */
+function validateRoutingFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Routing file must contain a JSON object."];
+  }
+  const errors: string[] = [];
+  const { deal, task, teams, defaultTeam, rules } = raw as Partial<RoutingConfig>;
+  if (typeof deal?.name !== "string" || typeof deal.stage !== "string" || typeof deal.closingInDays !== "number") {
+    errors.push(`"deal" must have "name", "stage" and "closingInDays".`);
+  } else if (!deal.name.startsWith("{name}")) {
+    errors.push(`deal.name must start with "{name}", so callers can be matched to their Deals.`);
+  }
+  if (typeof task?.subject !== "string" || typeof task.dueInBusinessDays !== "number" || typeof task.priority !== "string") {
+    errors.push(`"task" must have "subject", "dueInBusinessDays" and "priority".`);
+  }
+  if (typeof teams !== "object" || teams === null) {
+    errors.push(`"teams" must be an object of Zoho user ID lists.`);
+    return errors;
+  }
+  for (const [team, owners] of Object.entries(teams)) {
+    if (!Array.isArray(owners) || owners.some((owner) => typeof owner !== "string")) {
+      errors.push(`teams.${team}: must be an array of Zoho user IDs.`);
+    }
+  }
+  if (typeof defaultTeam !== "string" || !(defaultTeam in teams)) {
+    errors.push(`"defaultTeam" must be one of the teams.`);
+  }
+  if (!Array.isArray(rules)) {
+    errors.push(`"rules" must be an array.`);
+    return errors;
+  }
+  rules.forEach((rule, index) => {
+    if (typeof rule?.team !== "string" || !(rule.team in teams)) {
+      errors.push(`rules[${index}]: "team" must be one of the teams.`);
+    }
+    if (typeof rule?.when !== "object" || rule.when === null || Object.keys(rule.when).length === 0) {
+      errors.push(`rules[${index}]: "when" must set at least one condition.`);
+    }
+  });
+  return errors;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the routing file.
+ * @param path Path to the JSON routing file.
+ */
+export async function loadRoutingConfig(path: string): Promise<RoutingConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read routing config "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validateRoutingFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid routing config "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return raw as RoutingConfig;
+}
+
+/**
+ * Picks the team for a request: the first matching rule, or the default team.
+ */
+export function selectTeam(config: RoutingConfig, input: RoutingInput): { team: string; ruleIndex: number | null } {
+  const ruleIndex = config.rules.findIndex((rule) => conditionHolds(rule.when, input));
+  return ruleIndex === -1 ? { team: config.defaultTeam, ruleIndex: null } : { team: config.rules[ruleIndex].team, ruleIndex };
+}
+
+/**
+ * Adds business days (Monday to Friday) to a date and returns it as YYYY-MM-DD.
+ */
+export function addBusinessDays(from: Date, days: number): string {
+  const date = new Date(from);
+  let remaining = days;
+  while (remaining > 0 || date.getUTCDay() === 0 || date.getUTCDay() === 6) {
+    date.setUTCDate(date.getUTCDate() + 1);
+    if (date.getUTCDay() !== 0 && date.getUTCDay() !== 6) {
+      remaining--;
+    }
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the owner router. Owners are assigned round-robin within the selected
+ * team; the position of each team is kept in Deno KV so it survives restarts and
+ * is shared by concurrent workers.
+ */
+export function createOwnerRouter(kv: Deno.Kv, config: RoutingConfig) {
+  return {
+    /**
+     * Picks the team and the next owner in it for a request.
+     */
+    async assignOwner(input: RoutingInput): Promise<OwnerAssignment> {
+      const { team, ruleIndex } = selectTeam(config, input);
+      const owners = config.teams[team];
+      if (owners.length === 0) {
+        return { team, ownerId: null, ruleIndex };
+      }
+      const key = [ROUND_ROBIN_PREFIX, team];
+      while (true) {
+        const entry = await kv.get<number>(key);
+        const position = entry.value ?? 0;
+        const result = await kv.atomic().check(entry).set(key, position + 1).commit();
+        if (result.ok) {
+          return { team, ownerId: owners[position % owners.length], ruleIndex };
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import log from "./log.ts";
+import { decodePathSegment, errorResponse, isAuthorized } from "./adminApi.ts";
+import { normalizeCountry } from "./normalization.ts";
+import { calculateQuote, type PreliminaryQuote, type QuoteInput, type RateTables } from "./quoteCalculator.ts";
+import { validateAgainstSchema, type ObjectSchema } from "./schemaValidator.ts";
+
+// --- Constants ---
+const QUOTE_ROUTE = /^\/quotes\/([^/]+)$/;
+const QUOTE_INPUT_SCHEMA: ObjectSchema = {
+  originCountry: { kinds: ["string"], nullable: true },
+  destinationCountry: { kinds: ["string"], nullable: true },
+  serviceType: { kinds: ["string"], nullable: true },
+  packingType: { kinds: ["string"], nullable: true },
+  volumeM3: { kinds: ["number"], nullable: true },
+  includesVehicle: { kinds: ["boolean"], nullable: false },
+  vehicleValueUsd: { kinds: ["number"], nullable: true },
+  discountCode: { kinds: ["string"], nullable: true },
+};
+const QUOTE_INPUT_DEFAULTS: QuoteInput = {
+  originCountry: null,
+  destinationCountry: null,
+  serviceType: null,
+  packingType: null,
+  volumeM3: null,
+  includesVehicle: false,
+  vehicleValueUsd: null,
+  discountCode: null,
+};
+
+// --- Types ---
+export type QuoteApiOptions = {
+  /** Bearer token required on every quote route (the admin token). The API is disabled when unset. */
+  token: string | undefined;
+  rateTables: RateTables;
+  /** Loads the quote stored on the job for a transcription, or null if there is none. */
+  loadQuote: (transcriptionId: string) => Promise<PreliminaryQuote | null>;
+};
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the handler for the authenticated quote routes:
+ * - `GET /quotes/:transcriptionId` returns the preliminary quote calculated for a call.
+ * - `POST /quotes` calculates a quote from a JSON `QuoteInput` (omitted fields
+ *   default to null/false; countries may be names or ISO codes), e.g. to re-price
+ *   a request after pricing corrected the volume.
+ *
+ * The returned function resolves to null for paths it does not own.
+ */
+export function createQuoteApi(options: QuoteApiOptions) {
+  return async (
+    req: Request,
+    requestId: string
+  ): Promise<Response | null> => {
+    const path = new URL(req.url).pathname;
+    const quoteMatch = path.match(QUOTE_ROUTE);
+    if (path !== "/quotes" && !quoteMatch) {
+      return null;
+    }
+
+    if (!options.token) {
+      log(`[${requestId}] Quote route requested but ADMIN_API_TOKEN is not configured.`);
+      return errorResponse(503, "Quote API is disabled.");
+    }
+    if (!isAuthorized(req, options.token)) {
+      log(`[${requestId}] ERROR: Unauthorized quote API request to ${path}.`);
+      return errorResponse(401, "Unauthorized");
+    }
+
+    // --- Stored Quote ---
+    if (req.method === "GET" && quoteMatch) {
+      const transcriptionId = decodePathSegment(quoteMatch[1]);
+      if (transcriptionId === null) {
+        return errorResponse(400, "Transcription ID in the path is not correctly URL-encoded.");
+      }
+      const quote = await options.loadQuote(transcriptionId);
+      if (!quote) {
+        return errorResponse(404, `No quote found for transcription ${transcriptionId}.`);
+      }
+      log(`[${requestId}] Quote API returned the quote for transcription ${transcriptionId}.`);
+      return Response.json(quote);
+    }
+
+    // --- Calculate Quote ---
+    if (req.method === "POST" && path === "/quotes") {
+      let body: unknown;
+      try {
+        body = await req.json();
+      } catch {
+        return errorResponse(400, "Request body must be valid JSON.");
+      }
+      if (typeof body !== "object" || body === null || Array.isArray(body)) {
+        return errorResponse(400, "Request body must be a JSON object.");
+      }
+
+      const validation = validateAgainstSchema<QuoteInput>({ ...QUOTE_INPUT_DEFAULTS, ...body }, QUOTE_INPUT_SCHEMA);
+      if (!validation.ok) {
+        return Response.json({ error: "Invalid quote input.", details: validation.errors }, { status: 400 });
+      }
+      const input = validation.value;
+      for (const key of ["originCountry", "destinationCountry"] as const) {
+        if (input[key] !== null) {
+          const country = normalizeCountry(input[key]);
+          if (!country.code) {
+            return errorResponse(400, `Unknown country for "${key}": ${input[key]}`);
+          }
+          input[key] = country.code;
+        }
+      }
+
+      const quote = calculateQuote(input, options.rateTables);
+      log(`[${requestId}] Quote API calculated a quote (status: ${quote.status}, total: ${quote.totalUsd} ${quote.currency}).`);
+      return Response.json(quote);
+    }
+
+    return errorResponse(405, "Method Not Allowed");
+  };
+}
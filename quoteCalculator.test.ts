@@ -0,0 +1,99 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { calculateQuote, type QuoteInput, type RateTables } from "./quoteCalculator.ts";
+
+const TABLES: RateTables = {
+  currency: "USD",
+  minimumM3: 5,
+  range: { lowFactor: 0.9, highFactor: 1.2 },
+  lanes: [
+    { origin: "US", destination: "CR", baseUsd: 1000, perM3Usd: 100, vehicleUsd: 1500 },
+    { origin: "ES", destination: "CR", baseUsd: 1400, perM3Usd: 110, vehicleUsd: null },
+  ],
+  services: [
+    { id: "door_to_door", label: "Puerta a puerta", aliases: ["puerta a puerta", "door to door"], multiplier: 1 },
+    { id: "port_to_port", label: "Puerto a puerto", aliases: ["puerto a puerto", "port to port"], multiplier: 0.5 },
+  ],
+  packing: [
+    { id: "professional", label: "Embalaje profesional", aliases: ["profesional", "professional"], perM3Usd: 20 },
+    { id: "self", label: "Embalaje propio", aliases: ["propio", "self"], perM3Usd: 0 },
+  ],
+  vehicle: { insurancePercent: 2 },
+  discounts: [
+    { code: "AMIGO10", label: "Referido", percent: 10 },
+    { code: "VIEJO", label: "Promoción vencida", amountUsd: 100, expires: "2026-01-31" },
+  ],
+};
+
+const TODAY = new Date("2026-10-19T00:00:00Z");
+
+/**
+ * A complete input for the US → CR lane; tests override what they exercise.
+ */
+function input(overrides: Partial<QuoteInput> = {}): QuoteInput {
+  return {
+    originCountry: "US",
+    destinationCountry: "CR",
+    serviceType: "puerta a puerta",
+    packingType: "propio",
+    volumeM3: 10,
+    includesVehicle: false,
+    vehicleValueUsd: null,
+    discountCode: null,
+    ...overrides,
+  };
+}
+
+Deno.test("calculateQuote prices base and freight with the range rounded outwards", () => {
+  const quote = calculateQuote(input(), TABLES, TODAY);
+  assertEquals(quote.status, "quoted");
+  assertEquals(quote.lines.map((line) => [line.code, line.amountUsd]), [["base", 1000], ["freight", 1000]]);
+  assertEquals(quote.totalUsd, 2000);
+  assertEquals(quote.range, { lowUsd: 1800, highUsd: 2400 });
+  assertEquals(quote.unpriced, []);
+  assertEquals(quote.warnings, []);
+});
+
+Deno.test("calculateQuote bills at least the minimum volume", () => {
+  const quote = calculateQuote(input({ volumeM3: 2 }), TABLES, TODAY);
+  assertEquals(quote.billableM3, 5);
+  assertEquals(quote.lines[1].amountUsd, 500);
+});
+
+Deno.test("calculateQuote applies the service multiplier and packing", () => {
+  const quote = calculateQuote(input({ serviceType: "Port to port", packingType: "embalaje profesional" }), TABLES, TODAY);
+  assertEquals(quote.lines.map((line) => [line.code, line.amountUsd]), [["base", 1000], ["freight", 1000], ["service", -1000], ["packing", 200]]);
+  assertEquals(quote.totalUsd, 1200);
+});
+
+Deno.test("calculateQuote adds the vehicle and its insurance", () => {
+  const quote = calculateQuote(input({ includesVehicle: true, vehicleValueUsd: 20000 }), TABLES, TODAY);
+  assertEquals(quote.status, "quoted");
+  assertEquals(quote.lines.slice(2).map((line) => [line.code, line.amountUsd]), [["vehicle", 1500], ["vehicle_insurance", 400]]);
+});
+
+Deno.test("calculateQuote is partial when the lane has no vehicle rate", () => {
+  const quote = calculateQuote(input({ originCountry: "ES", includesVehicle: true, vehicleValueUsd: 20000 }), TABLES, TODAY);
+  assertEquals(quote.status, "partial");
+  assertEquals(quote.unpriced, ["vehicle"]);
+  assertEquals(quote.lines.map((line) => line.code), ["base", "freight"]);
+  assertEquals(quote.warnings.length, 1);
+});
+
+Deno.test("calculateQuote applies valid discounts and reports the others", () => {
+  const discounted = calculateQuote(input({ discountCode: "amigo10" }), TABLES, TODAY);
+  assertEquals(discounted.discountUsd, 200);
+  assertEquals(discounted.totalUsd, 1800);
+
+  const expired = calculateQuote(input({ discountCode: "VIEJO" }), TABLES, TODAY);
+  assertEquals(expired.discountUsd, 0);
+  assertEquals(expired.warnings, [`Código de descuento "VIEJO" venció el 2026-01-31.`]);
+});
+
+Deno.test("calculateQuote reports lanes without rates and missing data", () => {
+  assertEquals(calculateQuote(input({ originCountry: "FR" }), TABLES, TODAY).status, "no_rate");
+  assertEquals(calculateQuote(input({ destinationCountry: null }), TABLES, TODAY).status, "insufficient_data");
+  const noVolume = calculateQuote(input({ volumeM3: null }), TABLES, TODAY);
+  assertEquals(noVolume.status, "insufficient_data");
+  assertEquals(noVolume.lane, { origin: "US", destination: "CR" });
+  assertEquals(noVolume.range, null);
+});
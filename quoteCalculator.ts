@@ -0,0 +1,356 @@
+// --- Types ---
+export type LaneRate = {
+  /** ISO-3166 alpha-2 origin country. */
+  origin: string;
+  /** ISO-3166 alpha-2 destination country. */
+  destination: string;
+  baseUsd: number;
+  perM3Usd: number;
+  /** Flat vehicle shipping rate; null when vehicles are not shipped on this lane. */
+  vehicleUsd: number | null;
+};
+
+export type ServiceRate = {
+  id: string;
+  label: string;
+  aliases: string[];
+  /** Applied to the base and freight charges (1 = door to door). */
+  multiplier: number;
+};
+
+export type PackingRate = {
+  id: string;
+  label: string;
+  aliases: string[];
+  perM3Usd: number;
+};
+
+export type DiscountRule = {
+  code: string;
+  label: string;
+  /** Percentage off the subtotal; either this or amountUsd. */
+  percent?: number;
+  amountUsd?: number;
+  /** Last valid day (YYYY-MM-DD), inclusive. */
+  expires?: string;
+};
+
+export type RateTables = {
+  currency: string;
+  /** Volumes below this are billed as this many cubic meters. */
+  minimumM3: number;
+  /** Multipliers that turn the computed total into the quoted range. */
+  range: { lowFactor: number; highFactor: number };
+  lanes: LaneRate[];
+  services: ServiceRate[];
+  packing: PackingRate[];
+  vehicle: { insurancePercent: number };
+  discounts: DiscountRule[];
+};
+
+export type QuoteInput = {
+  originCountry: string | null;
+  destinationCountry: string | null;
+  serviceType: string | null;
+  packingType: string | null;
+  volumeM3: number | null;
+  includesVehicle: boolean;
+  vehicleValueUsd: number | null;
+  discountCode: string | null;
+};
+
+export type QuoteLine = {
+  code: "base" | "freight" | "service" | "packing" | "vehicle" | "vehicle_insurance" | "discount";
+  description: string;
+  amountUsd: number;
+};
+
+export type QuoteStatus =
+  /** Every charge could be priced. */
+  | "quoted"
+  /** Some requested charges could not be priced (see `unpriced`); the total leaves them out. */
+  | "partial"
+  /** The lane has no rate in the tables; pricing must quote by hand. */
+  | "no_rate"
+  /** Countries or volume are unknown, so nothing could be priced. */
+  | "insufficient_data";
+
+export type PreliminaryQuote = {
+  status: QuoteStatus;
+  currency: string;
+  lane: { origin: string; destination: string } | null;
+  billableM3: number | null;
+  lines: QuoteLine[];
+  subtotalUsd: number;
+  discountUsd: number;
+  totalUsd: number;
+  range: { lowUsd: number; highUsd: number } | null;
+  /** Requested charges the tables have no rate for, e.g. "vehicle" on a lane without a vehicle rate. */
+  unpriced: QuoteLine["code"][];
+  /** Charges that could not be priced and inputs that were ignored. */
+  warnings: string[];
+};
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases and strips accents and punctuation for alias matching.
+ */
+function simplify(text: string): string {
+  return ` ${text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()} `;
+}
+
+/**
+ * Finds the rate whose longest alias occurs in the text as whole words.
+ */
+function matchByAlias<T extends { aliases: string[] }>(text: string, rates: T[]): T | null {
+  const haystack = simplify(text);
+  let best: { rate: T; length: number } | null = null;
+  for (const rate of rates) {
+    for (const alias of rate.aliases) {
+      const needle = simplify(alias);
+      if (haystack.includes(needle) && (!best || needle.length > best.length)) {
+        best = { rate, length: needle.length };
+      }
+    }
+  }
+  return best?.rate ?? null;
+}
+
+/**
+ * Rounds to whole cents.
+ */
+function roundUsd(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Validates the parsed rate table file, collecting every problem found.
+ */
+function validateRateTablesFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Rate table file must contain a JSON object."];
+  }
+  const errors: string[] = [];
+  const tables = raw as Partial<RateTables>;
+  const isAmount = (value: unknown) => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+  if (typeof tables.currency !== "string") {
+    errors.push(`"currency" is required.`);
+  }
+  if (!isAmount(tables.minimumM3)) {
+    errors.push(`"minimumM3" must be a non-negative number.`);
+  }
+  const { lowFactor, highFactor } = tables.range ?? {};
+  if (!isAmount(lowFactor) || !isAmount(highFactor) || (lowFactor as number) > (highFactor as number)) {
+    errors.push(`"range" must have numeric "lowFactor" <= "highFactor".`);
+  }
+  if (!isAmount(tables.vehicle?.insurancePercent)) {
+    errors.push(`"vehicle.insurancePercent" must be a non-negative number.`);
+  }
+  for (const list of ["lanes", "services", "packing", "discounts"] as const) {
+    if (!Array.isArray(tables[list])) {
+      errors.push(`"${list}" must be an array.`);
+    }
+  }
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  const { lanes, services, packing, discounts } = tables as RateTables;
+  const seenLanes = new Set<string>();
+  lanes.forEach((lane, index) => {
+    const key = `${lane?.origin}-${lane?.destination}`;
+    if (!/^[A-Z]{2}$/.test(lane?.origin ?? "") || !/^[A-Z]{2}$/.test(lane?.destination ?? "")) {
+      errors.push(`lanes[${index}]: "origin" and "destination" must be ISO-3166 alpha-2 codes.`);
+    } else if (seenLanes.has(key)) {
+      errors.push(`lanes[${index}]: duplicate lane ${key}.`);
+    }
+    seenLanes.add(key);
+    if (!isAmount(lane?.baseUsd) || !isAmount(lane?.perM3Usd) || (lane?.vehicleUsd !== null && !isAmount(lane?.vehicleUsd))) {
+      errors.push(`lanes[${index}] (${key}): "baseUsd", "perM3Usd" and "vehicleUsd" (or null) must be non-negative numbers.`);
+    }
+  });
+  services.forEach((service, index) => {
+    if (!Array.isArray(service?.aliases) || !isAmount(service?.multiplier)) {
+      errors.push(`services[${index}]: "aliases" and a numeric "multiplier" are required.`);
+    }
+  });
+  packing.forEach((rate, index) => {
+    if (!Array.isArray(rate?.aliases) || !isAmount(rate?.perM3Usd)) {
+      errors.push(`packing[${index}]: "aliases" and a numeric "perM3Usd" are required.`);
+    }
+  });
+  discounts.forEach((discount, index) => {
+    if (typeof discount?.code !== "string" || (isAmount(discount?.percent) === isAmount(discount?.amountUsd))) {
+      errors.push(`discounts[${index}]: a "code" and exactly one of "percent" or "amountUsd" are required.`);
+    }
+    if (discount?.expires !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(discount.expires)) {
+      errors.push(`discounts[${index}]: "expires" must be a YYYY-MM-DD date.`);
+    }
+  });
+  return errors;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the rate table file.
+ * @param path Path to the JSON rate table file.
+ */
+export async function loadRateTables(path: string): Promise<RateTables> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read rate tables "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validateRateTablesFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid rate tables "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return raw as RateTables;
+}
+
+/**
+ * Calculates an itemized preliminary quote and its range from the rate tables.
+ *
+ * Freight and packing are billed on the volume (at least `minimumM3`); the
+ * service type scales base and freight; vehicles add the lane's flat rate plus
+ * insurance on their value. Charges that cannot be priced are left out and
+ * listed in `warnings`; when a requested charge has no rate, the status is
+ * "partial" rather than "quoted".
+ * @param input The normalized request details.
+ * @param tables The rate tables.
+ * @param today Reference date for discount expiry.
+ */
+export function calculateQuote(input: QuoteInput, tables: RateTables, today: Date = new Date()): PreliminaryQuote {
+  const warnings: string[] = [];
+  const unpricedCharges: QuoteLine["code"][] = [];
+  const unpriced = (status: QuoteStatus, lane: PreliminaryQuote["lane"]): PreliminaryQuote => ({
+    status,
+    currency: tables.currency,
+    lane,
+    billableM3: null,
+    lines: [],
+    subtotalUsd: 0,
+    discountUsd: 0,
+    totalUsd: 0,
+    range: null,
+    unpriced: [],
+    warnings,
+  });
+
+  if (!input.originCountry || !input.destinationCountry) {
+    warnings.push("País de origen o destino desconocido.");
+    return unpriced("insufficient_data", null);
+  }
+  const laneKey = { origin: input.originCountry, destination: input.destinationCountry };
+  const lane = tables.lanes.find(
+    (candidate) => candidate.origin === input.originCountry && candidate.destination === input.destinationCountry
+  );
+  if (!lane) {
+    warnings.push(`Sin tarifa para la ruta ${input.originCountry} → ${input.destinationCountry}; cotizar manualmente.`);
+    return unpriced("no_rate", laneKey);
+  }
+  if (input.volumeM3 === null || !(input.volumeM3 > 0)) {
+    warnings.push("Volumen desconocido; no se puede calcular el flete.");
+    return unpriced("insufficient_data", laneKey);
+  }
+
+  const billableM3 = Math.max(input.volumeM3, tables.minimumM3);
+  const lines: QuoteLine[] = [
+    { code: "base", description: `Tarifa base ${lane.origin} → ${lane.destination}`, amountUsd: lane.baseUsd },
+    {
+      code: "freight",
+      description: `Flete ${billableM3} m³ x ${lane.perM3Usd} ${tables.currency}/m³${billableM3 > input.volumeM3 ? ` (mínimo ${tables.minimumM3} m³)` : ""}`,
+      amountUsd: roundUsd(billableM3 * lane.perM3Usd),
+    },
+  ];
+
+  const service = input.serviceType ? matchByAlias(input.serviceType, tables.services) : null;
+  if (input.serviceType && !service) {
+    warnings.push(`Tipo de servicio no reconocido ("${input.serviceType}"); se cotizó puerta a puerta.`);
+  }
+  if (service && service.multiplier !== 1) {
+    lines.push({
+      code: "service",
+      description: `Ajuste por servicio: ${service.label}`,
+      amountUsd: roundUsd((lines[0].amountUsd + lines[1].amountUsd) * (service.multiplier - 1)),
+    });
+  }
+
+  const packing = input.packingType ? matchByAlias(input.packingType, tables.packing) : null;
+  if (input.packingType && !packing) {
+    warnings.push(`Tipo de embalaje no reconocido ("${input.packingType}"); no se incluyó recargo de embalaje.`);
+  } else if (!input.packingType) {
+    warnings.push("Tipo de embalaje desconocido; no se incluyó recargo de embalaje.");
+  }
+  if (packing && packing.perM3Usd > 0) {
+    lines.push({
+      code: "packing",
+      description: `${packing.label} (${billableM3} m³ x ${packing.perM3Usd} ${tables.currency}/m³)`,
+      amountUsd: roundUsd(billableM3 * packing.perM3Usd),
+    });
+  }
+
+  if (input.includesVehicle) {
+    if (lane.vehicleUsd === null) {
+      warnings.push(`Sin tarifa de vehículo para la ruta ${lane.origin} → ${lane.destination}; cotizar manualmente.`);
+      unpricedCharges.push("vehicle");
+    } else {
+      lines.push({ code: "vehicle", description: "Envío de vehículo", amountUsd: lane.vehicleUsd });
+      if (input.vehicleValueUsd !== null && input.vehicleValueUsd > 0) {
+        lines.push({
+          code: "vehicle_insurance",
+          description: `Seguro de vehículo (${tables.vehicle.insurancePercent}% de ${input.vehicleValueUsd} ${tables.currency})`,
+          amountUsd: roundUsd((input.vehicleValueUsd * tables.vehicle.insurancePercent) / 100),
+        });
+      } else {
+        warnings.push("Valor del vehículo desconocido; no se incluyó el seguro.");
+      }
+    }
+  }
+
+  const subtotalUsd = roundUsd(lines.reduce((total, line) => total + line.amountUsd, 0));
+  let discountUsd = 0;
+  if (input.discountCode) {
+    const code = input.discountCode.trim().toUpperCase();
+    const discount = tables.discounts.find((candidate) => candidate.code.toUpperCase() === code);
+    if (!discount) {
+      warnings.push(`Código de descuento "${input.discountCode}" no reconocido.`);
+    } else if (discount.expires && discount.expires < today.toISOString().slice(0, 10)) {
+      warnings.push(`Código de descuento "${discount.code}" venció el ${discount.expires}.`);
+    } else {
+      discountUsd = roundUsd(Math.min(subtotalUsd, discount.percent !== undefined ? (subtotalUsd * discount.percent) / 100 : discount.amountUsd ?? 0));
+      lines.push({ code: "discount", description: `${discount.label} (${discount.code})`, amountUsd: -discountUsd });
+    }
+  }
+
+  const totalUsd = roundUsd(subtotalUsd - discountUsd);
+  return {
+    status: unpricedCharges.length > 0 ? "partial" : "quoted",
+    currency: tables.currency,
+    lane: laneKey,
+    billableM3,
+    lines,
+    subtotalUsd,
+    discountUsd,
+    totalUsd,
+    // Ranges are rounded outwards to the nearest 10 so they don't read as exact prices.
+    range: {
+      lowUsd: Math.floor((totalUsd * tables.range.lowFactor) / 10) * 10,
+      highUsd: Math.ceil((totalUsd * tables.range.highFactor) / 10) * 10,
+    },
+    unpriced: unpricedCharges,
+    warnings,
+  };
+}
@@ -0,0 +1,176 @@
+// --- Types ---
+export type ValueKind = "string" | "number" | "boolean";
+
+/**
+ * Runtime description of one property: the value kinds it accepts and whether
+ * null is allowed. Every property in an ObjectSchema is a required key.
+ */
+export type FieldSpec = {
+  kinds: ValueKind[];
+  nullable: boolean;
+};
+
+export type ObjectSchema = Record<string, FieldSpec>;
+
+export type ValidationResult<T> =
+  | { ok: true; value: T; coercions: string[] }
+  | { ok: false; errors: string[] };
+
+type CoercionOutcome =
+  | { ok: true; value: unknown; note?: string }
+  | { ok: false; error: string };
+
+// --- Constants ---
+const NULL_LIKE_STRINGS = ["", "null", "none", "n/a", "na", "unknown", "desconocido", "no especificado"];
+const TRUE_STRINGS = ["true", "yes", "y", "si", "sí", "1"];
+const FALSE_STRINGS = ["false", "no", "n", "0"];
+// Plain numbers with optional currency symbol, thousands separators and a "k" suffix.
+const NUMERIC_STRING_REGEX = /^(?:usd|us\$|\$)?\s*(-?\d{1,3}(?:[,\s]\d{3})+|-?\d+)(?:\.(\d+))?\s*(k)?\s*(?:usd)?$/i;
+
+// --- Helper Functions ---
+
+/**
+ * Describes a value for error messages, e.g. `string "about 20k"`.
+ */
+function describeValue(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "string") {
+    return `string ${JSON.stringify(value)}`;
+  }
+  if (typeof value === "object") {
+    return "object";
+  }
+  return `${typeof value} ${String(value)}`;
+}
+
+/**
+ * Describes the accepted kinds of a field, e.g. `number or string or null`.
+ */
+function describeSpec(spec: FieldSpec): string {
+  return [...spec.kinds, ...(spec.nullable ? ["null"] : [])].join(" or ");
+}
+
+/**
+ * Parses strings that are unambiguously a number ("20,000", "$20000", "20k").
+ */
+function parseNumericString(value: string): number | null {
+  const match = value.trim().match(NUMERIC_STRING_REGEX);
+  if (!match) {
+    return null;
+  }
+  const integerPart = match[1].replace(/[,\s]/g, "");
+  const parsed = parseFloat(match[2] ? `${integerPart}.${match[2]}` : integerPart);
+  if (!Number.isFinite(parsed)) {
+    return null;
+  }
+  return match[3] ? parsed * 1000 : parsed;
+}
+
+/**
+ * Checks one value against its spec, coercing obvious cases (numeric strings,
+ * yes/no strings, null-like placeholders, scalars where a string is expected).
+ */
+function coerceValue(key: string, value: unknown, spec: FieldSpec): CoercionOutcome {
+  const expected = describeSpec(spec);
+
+  if (value === null) {
+    return spec.nullable
+      ? { ok: true, value }
+      : { ok: false, error: `"${key}": expected ${expected}, got null` };
+  }
+
+  if (typeof value === "string" || typeof value === "number" || typeof value === "boolean") {
+    if (spec.kinds.includes(typeof value as ValueKind)) {
+      // Null-like placeholders only collapse to null when the field allows it.
+      if (typeof value === "string" && spec.nullable && NULL_LIKE_STRINGS.includes(value.trim().toLowerCase())) {
+        return { ok: true, value: null, note: `"${key}": placeholder ${describeValue(value)} -> null` };
+      }
+      if (typeof value === "number" && !Number.isFinite(value)) {
+        return { ok: false, error: `"${key}": expected a finite number, got ${String(value)}` };
+      }
+      return { ok: true, value };
+    }
+  }
+
+  if (typeof value === "string") {
+    const normalized = value.trim().toLowerCase();
+    if (spec.nullable && NULL_LIKE_STRINGS.includes(normalized)) {
+      return { ok: true, value: null, note: `"${key}": placeholder ${describeValue(value)} -> null` };
+    }
+    if (spec.kinds.includes("number")) {
+      const parsed = parseNumericString(value);
+      if (parsed !== null) {
+        return { ok: true, value: parsed, note: `"${key}": ${describeValue(value)} -> ${parsed}` };
+      }
+    }
+    if (spec.kinds.includes("boolean")) {
+      if (TRUE_STRINGS.includes(normalized)) {
+        return { ok: true, value: true, note: `"${key}": ${describeValue(value)} -> true` };
+      }
+      if (FALSE_STRINGS.includes(normalized)) {
+        return { ok: true, value: false, note: `"${key}": ${describeValue(value)} -> false` };
+      }
+    }
+  }
+
+  if ((typeof value === "number" || typeof value === "boolean") && spec.kinds.includes("string")) {
+    return { ok: true, value: String(value), note: `"${key}": ${describeValue(value)} -> string` };
+  }
+
+  return { ok: false, error: `"${key}": expected ${expected}, got ${describeValue(value)}` };
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Validates an unknown value (typically parsed model output) against an object
+ * schema. Missing keys and values of the wrong kind are reported as errors;
+ * obvious cases are coerced and listed in `coercions`; unknown keys are dropped.
+ * @param input The value to validate.
+ * @param schema The expected properties.
+ * @returns The validated object, or the list of errors found.
+ */
+export function validateAgainstSchema<T>(
+  input: unknown,
+  schema: ObjectSchema
+): ValidationResult<T> {
+  if (typeof input !== "object" || input === null || Array.isArray(input)) {
+    return { ok: false, errors: [`Expected a JSON object, got ${describeValue(input)}`] };
+  }
+
+  const source = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const coercions: string[] = [];
+  const output: Record<string, unknown> = {};
+
+  for (const [key, spec] of Object.entries(schema)) {
+    if (!(key in source)) {
+      errors.push(`"${key}": missing required key (use null if unknown)`);
+      continue;
+    }
+    const outcome = coerceValue(key, source[key], spec);
+    if (outcome.ok) {
+      output[key] = outcome.value;
+      if (outcome.note) {
+        coercions.push(outcome.note);
+      }
+    } else {
+      errors.push(outcome.error);
+    }
+  }
+
+  for (const key of Object.keys(source)) {
+    if (!(key in schema)) {
+      coercions.push(`"${key}": unknown key dropped`);
+    }
+  }
+
+  return errors.length > 0
+    ? { ok: false, errors }
+    : { ok: true, value: output as T, coercions };
+}
@@ -0,0 +1,188 @@
+import log from "./log.ts";
+import { errorResponse, isAuthorized } from "./adminApi.ts";
+import {
+  contentId,
+  detectTranscriptFormat,
+  parseTranscript,
+  type SubmittedTranscript,
+  type TranscriptFormat,
+} from "./transcriptSources.ts";
+
+// --- Constants ---
+const MAX_TRANSCRIPT_BYTES = 5 * 1024 * 1024;
+const TRANSCRIPT_FORMATS: TranscriptFormat[] = ["text", "srt", "vtt"];
+// Content types that name the format; anything else is detected from the content.
+const CONTENT_TYPE_FORMATS: Record<string, TranscriptFormat> = {
+  "application/x-subrip": "srt",
+  "text/srt": "srt",
+  "text/vtt": "vtt",
+};
+
+// --- Types ---
+export type TranscriptSubmission = {
+  jobId: string;
+  transcriptionId: string;
+  outcome: string;
+  status: string;
+  fileName: string | null;
+};
+
+export type TranscriptApiOptions = {
+  /** Bearer token required on the route (the admin token). The route is disabled when unset. */
+  token: string | undefined;
+  /** Queues the pipeline for a transcript. The ID is derived from the content unless the caller gave one. */
+  submit: (transcript: SubmittedTranscript, id: string) => Promise<TranscriptSubmission>;
+};
+
+type UploadedFile = { content: string; fileName: string | null; format: TranscriptFormat | null; id: string | null };
+
+// --- Helper Functions ---
+
+/**
+ * Reads the request body, or returns null as soon as it exceeds `maxBytes`.
+ * Content-Length cannot be trusted for this: chunked uploads do not send it.
+ */
+async function readBodyLimited(req: Request, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  if (!req.body) {
+    return new Uint8Array();
+  }
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = req.body.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return body;
+}
+
+/**
+ * Reads the transcript file(s) from the request: every file of a multipart
+ * form, or the whole body otherwise. `?format=` and `?id=` (or the "format" and
+ * "id" form fields) override detection and the content-derived ID.
+ */
+async function readUploads(req: Request, body: Uint8Array<ArrayBuffer>, url: URL): Promise<UploadedFile[] | string> {
+  const contentType = (req.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+  const requestedFormat = url.searchParams.get("format");
+  const requestedId = url.searchParams.get("id");
+
+  if (contentType === "multipart/form-data") {
+    let form: FormData;
+    try {
+      form = await new Response(body, { headers: { "content-type": req.headers.get("content-type")! } }).formData();
+    } catch {
+      return "Request body must be a valid multipart form.";
+    }
+    const format = requestedFormat ?? form.get("format");
+    const id = requestedId ?? form.get("id");
+    const files = form.getAll("file").filter((value): value is File => value instanceof File);
+    if (files.length === 0) {
+      return `Multipart body must contain at least one "file" field.`;
+    }
+    if (id && files.length > 1) {
+      return `"id" can only be given for a single file.`;
+    }
+    return await Promise.all(files.map(async (file) => ({
+      content: await file.text(),
+      fileName: file.name || null,
+      format: typeof format === "string" ? format as TranscriptFormat : null,
+      id: typeof id === "string" ? id : null,
+    })));
+  }
+  return [{
+    content: new TextDecoder().decode(body),
+    fileName: null,
+    format: (requestedFormat as TranscriptFormat | null) ?? CONTENT_TYPE_FORMATS[contentType] ?? null,
+    id: requestedId,
+  }];
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the handler for `POST /transcripts`, which feeds transcripts recorded
+ * outside Happy Scribe (or test transcripts) into the pipeline. The body is raw
+ * text, SRT or WebVTT, or a multipart form with one or more "file" fields.
+ * Responds 202 with one submission per file.
+ *
+ * The returned function resolves to null for paths it does not own.
+ */
+export function createTranscriptApi(options: TranscriptApiOptions) {
+  return async (
+    req: Request,
+    requestId: string
+  ): Promise<Response | null> => {
+    const url = new URL(req.url);
+    if (url.pathname !== "/transcripts") {
+      return null;
+    }
+
+    if (!options.token) {
+      log(`[${requestId}] Transcript upload requested but ADMIN_API_TOKEN is not configured.`);
+      return errorResponse(503, "Transcript upload is disabled.");
+    }
+    if (!isAuthorized(req, options.token)) {
+      log(`[${requestId}] ERROR: Unauthorized transcript upload.`);
+      return errorResponse(401, "Unauthorized");
+    }
+    if (req.method !== "POST") {
+      return errorResponse(405, "Method Not Allowed");
+    }
+    let uploads: UploadedFile[] | string;
+    try {
+      const body = Number(req.headers.get("content-length") ?? 0) > MAX_TRANSCRIPT_BYTES
+        ? null
+        : await readBodyLimited(req, MAX_TRANSCRIPT_BYTES);
+      if (!body) {
+        return errorResponse(413, `Transcripts are limited to ${MAX_TRANSCRIPT_BYTES} bytes.`);
+      }
+      uploads = await readUploads(req, body, url);
+    } catch (error) {
+      return errorResponse(400, `Could not read the request body: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (typeof uploads === "string") {
+      return errorResponse(400, uploads);
+    }
+
+    // Every file is checked before any is queued, so a bad file never leaves a partial upload.
+    const transcripts: { transcript: SubmittedTranscript; id: string }[] = [];
+    for (const upload of uploads) {
+      if (upload.format && !TRANSCRIPT_FORMATS.includes(upload.format)) {
+        return errorResponse(400, `Unknown format "${upload.format}" (expected ${TRANSCRIPT_FORMATS.join(", ")}).`);
+      }
+      if (upload.id && !/^[\w.-]{1,100}$/.test(upload.id)) {
+        return errorResponse(400, `"id" may only contain letters, digits, ".", "_" and "-".`);
+      }
+      const format = upload.format ?? detectTranscriptFormat(upload.content, upload.fileName);
+      const parsed = parseTranscript(upload.content, format);
+      if (!parsed.text) {
+        return errorResponse(400, `${upload.fileName ?? "Body"} contains no transcript text.`);
+      }
+      transcripts.push({
+        transcript: { ...parsed, format, fileName: upload.fileName },
+        id: upload.id ?? await contentId(upload.content),
+      });
+    }
+
+    const submissions: TranscriptSubmission[] = [];
+    for (const { transcript, id } of transcripts) {
+      submissions.push(await options.submit(transcript, id));
+    }
+    log(`[${requestId}] Transcript upload queued ${submissions.length} job(s): ${submissions.map((entry) => `${entry.jobId} (${entry.outcome})`).join(", ")}`);
+    return Response.json({ submissions }, { status: 202 });
+  };
+}
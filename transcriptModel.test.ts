@@ -0,0 +1,107 @@
+import { assertEquals, assertThrows } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import {
+  assignSpeakerRoles,
+  formatTimestamp,
+  locateQuote,
+  parseCueTime,
+  parseHappyScribeJson,
+  renderSpeakerText,
+  type SpeakerRoleConfig,
+  type Utterance,
+} from "./transcriptModel.ts";
+
+const CONFIG: SpeakerRoleConfig = {
+  agentLabels: [],
+  agentPhrases: ["gracias por llamar", "en que le puedo ayudar"],
+  customerPhrases: ["quisiera una cotizacion", "me mudo"],
+};
+
+const CALL: Utterance[] = [
+  { speaker: "Speaker 1", start: 0, end: 4, text: "Gracias por llamar, ¿en qué le puedo ayudar?" },
+  { speaker: "Speaker 2", start: 4.2, end: 9, text: "Hola, quisiera una cotización. Me mudo a Costa Rica." },
+  { speaker: "Speaker 1", start: 65.7, end: 70, text: "Perfecto, ¿desde qué ciudad?" },
+  { speaker: "Speaker 2", start: 3725, end: 3730, text: "Desde Miami, en diciembre." },
+];
+
+Deno.test("parseHappyScribeJson reads speakers, times and words", () => {
+  const utterances = parseHappyScribeJson([
+    {
+      speaker: " Ana ",
+      words: [
+        { text: "Hola", type: "word", data_start: 1.5, data_end: 1.9 },
+        { text: " ", type: "spacing" },
+        { text: "buenas", type: "word", data_start: "2", data_end: "2.4" },
+      ],
+    },
+    { speaker_number: 1, data_start: 3, words: [{ text: "Sí" }, { text: "," }, { text: "claro" }] },
+    { speaker: "Ana", words: [{ text: "  " }] },
+  ]);
+  assertEquals(utterances, [
+    { speaker: "Ana", start: 1.5, end: 2.4, text: "Hola buenas" },
+    { speaker: "Speaker 2", start: 3, end: null, text: "Sí, claro" },
+  ]);
+});
+
+Deno.test("parseHappyScribeJson rejects other shapes", () => {
+  assertThrows(() => parseHappyScribeJson({ segments: [] }));
+  assertThrows(() => parseHappyScribeJson([{ speaker: "Ana" }]));
+});
+
+Deno.test("parseCueTime reads subtitle timestamps", () => {
+  assertEquals(parseCueTime("00:01:02,500"), 62.5);
+  assertEquals(parseCueTime("01:02.5"), 62.5);
+  assertEquals(parseCueTime("1:02"), null);
+});
+
+Deno.test("assignSpeakerRoles finds the agent from their phrases", () => {
+  const model = assignSpeakerRoles(CALL, CONFIG);
+  assertEquals(model.agentDetection, "heuristic");
+  assertEquals(model.speakers.map((speaker) => [speaker.label, speaker.role, speaker.utterances, speaker.agentScore]), [
+    ["Speaker 1", "agent", 2, 2],
+    ["Speaker 2", "customer", 2, -2],
+  ]);
+});
+
+Deno.test("assignSpeakerRoles prefers a configured agent label", () => {
+  const model = assignSpeakerRoles(CALL, { ...CONFIG, agentLabels: ["speaker 2"] });
+  assertEquals(model.agentDetection, "config");
+  assertEquals(model.speakers.map((speaker) => speaker.role), ["customer", "agent"]);
+});
+
+Deno.test("assignSpeakerRoles leaves roles unknown without a clear signal", () => {
+  const noPhrases = assignSpeakerRoles(CALL, { agentLabels: [], agentPhrases: [], customerPhrases: [] });
+  assertEquals(noPhrases.agentDetection, "none");
+  assertEquals(noPhrases.speakers.map((speaker) => speaker.role), ["unknown", "unknown"]);
+
+  const unlabelled = assignSpeakerRoles(CALL.map((utterance) => ({ ...utterance, speaker: null })), CONFIG);
+  assertEquals(unlabelled.speakers, []);
+  assertEquals(unlabelled.agentDetection, "none");
+});
+
+Deno.test("formatTimestamp adds hours only past the hour", () => {
+  assertEquals(formatTimestamp(0), "00:00");
+  assertEquals(formatTimestamp(65.7), "01:05");
+  assertEquals(formatTimestamp(3725), "1:02:05");
+});
+
+Deno.test("renderSpeakerText prefixes each line with its time and role", () => {
+  const model = assignSpeakerRoles(CALL.slice(0, 3), CONFIG);
+  assertEquals(
+    renderSpeakerText(model),
+    [
+      "[00:00] Agente: Gracias por llamar, ¿en qué le puedo ayudar?",
+      "[00:04] Cliente: Hola, quisiera una cotización. Me mudo a Costa Rica.",
+      "[01:05] Agente: Perfecto, ¿desde qué ciudad?",
+    ].join("\n")
+  );
+  const unlabelled = assignSpeakerRoles([{ speaker: null, start: 12, end: null, text: "Hola" }], CONFIG);
+  assertEquals(renderSpeakerText(unlabelled), "[00:12] Hola");
+});
+
+Deno.test("locateQuote finds the utterance a quote was taken from", () => {
+  const model = assignSpeakerRoles(CALL, CONFIG);
+  assertEquals(locateQuote(model, "me mudo a costa rica"), { start: 4.2, speaker: "Speaker 2", role: "customer" });
+  // A quote spanning two utterances is located at the first.
+  assertEquals(locateQuote(model, "Costa Rica. Perfecto"), { start: 4.2, speaker: "Speaker 2", role: "customer" });
+  assertEquals(locateQuote(model, "desde Madrid"), null);
+});
@@ -0,0 +1,301 @@
+import { quoteOccursIn } from "./fieldEvidence.ts";
+
+// --- Constants ---
+// Labels used in the prompts and notes for speakers whose role is known.
+const ROLE_LABELS: Record<Exclude<SpeakerRole, "unknown">, string> = {
+  agent: "Agente",
+  customer: "Cliente",
+};
+// The agent usually answers the call, so the first speaker gets a small head start.
+const FIRST_SPEAKER_BONUS = 0.5;
+
+// --- Types ---
+export type SpeakerRole = "agent" | "customer" | "unknown";
+
+/**
+ * One turn of the conversation. Times are in seconds from the start of the recording.
+ */
+export type Utterance = {
+  /** Speaker label from the source (e.g. "Speaker 1"), or null when the source has none. */
+  speaker: string | null;
+  start: number;
+  end: number | null;
+  text: string;
+};
+
+export type TranscriptSpeaker = {
+  label: string;
+  role: SpeakerRole;
+  utterances: number;
+  /** Agent phrases minus customer phrases said by the speaker (heuristic detection only). */
+  agentScore: number;
+};
+
+/**
+ * A transcript with speakers and timestamps, stored as the "transcript_model" job blob.
+ */
+export type TranscriptModel = {
+  utterances: Utterance[];
+  speakers: TranscriptSpeaker[];
+  /** How the agent was identified: a configured label, the phrase heuristic, or not at all. */
+  agentDetection: "config" | "heuristic" | "none";
+};
+
+export type SpeakerRoleConfig = {
+  /** Speaker labels that are always the agent (e.g. a dedicated line's channel label). */
+  agentLabels: string[];
+  /** Phrases typical of the agent; matched case- and accent-insensitively. */
+  agentPhrases: string[];
+  /** Phrases typical of the customer. */
+  customerPhrases: string[];
+};
+
+/**
+ * Where an evidence quote was said.
+ */
+export type QuoteLocation = {
+  start: number;
+  speaker: string | null;
+  role: SpeakerRole;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases and strips accents for phrase matching.
+ */
+function simplify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+}
+
+/**
+ * Reads a time in seconds from a Happy Scribe field, which may be a number or a numeric string.
+ */
+function toSeconds(value: unknown): number | null {
+  const seconds = typeof value === "string" ? Number(value) : value;
+  return typeof seconds === "number" && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+/**
+ * Joins the words of a Happy Scribe segment. The export has explicit spacing
+ * tokens; older exports without them get spaces between words but not before punctuation.
+ */
+function joinWords(words: Record<string, unknown>[]): string {
+  const texts = words.map((word) => (typeof word.text === "string" ? word.text : ""));
+  const hasSpacing = words.some((word) => word.type === "spacing") || texts.some((text) => /^\s|\s$/.test(text));
+  const joined = hasSpacing ? texts.join("") : texts.join(" ").replace(/\s+([.,;:!?…])/g, "$1");
+  return joined.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Counts how many of the phrases occur in the text.
+ */
+function countPhrases(text: string, phrases: string[]): number {
+  return phrases.filter((phrase) => text.includes(phrase)).length;
+}
+
+/**
+ * Validates the parsed speaker role file, collecting every problem found.
+ */
+function validateSpeakerRoleFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Speaker role file must contain a JSON object."];
+  }
+  const errors: string[] = [];
+  for (const key of ["agentLabels", "agentPhrases", "customerPhrases"] as const) {
+    const value = (raw as Partial<SpeakerRoleConfig>)[key];
+    if (!Array.isArray(value) || value.some((entry) => typeof entry !== "string")) {
+      errors.push(`"${key}" must be an array of strings.`);
+    }
+  }
+  return errors;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the speaker role file.
+ * @param path Path to the JSON speaker role file.
+ */
+export async function loadSpeakerRoleConfig(path: string): Promise<SpeakerRoleConfig> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read speaker role config "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validateSpeakerRoleFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid speaker role config "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return raw as SpeakerRoleConfig;
+}
+
+/**
+ * Parses Happy Scribe's JSON export: an array of segments, each with a speaker,
+ * its words and their start/end times. Throws when the export has another shape.
+ */
+export function parseHappyScribeJson(raw: unknown): Utterance[] {
+  if (!Array.isArray(raw)) {
+    throw new Error("Happy Scribe JSON export must be an array of segments.");
+  }
+  const utterances: Utterance[] = [];
+  raw.forEach((segment, index) => {
+    if (typeof segment !== "object" || segment === null || !Array.isArray(segment.words)) {
+      throw new Error(`Happy Scribe JSON export segment ${index} has no "words" array.`);
+    }
+    const words = (segment.words as unknown[]).filter(
+      (word): word is Record<string, unknown> => typeof word === "object" && word !== null
+    );
+    const text = joinWords(words);
+    if (!text) {
+      return;
+    }
+    const timedWords = words.filter((word) => toSeconds(word.data_start) !== null);
+    const speaker = typeof segment.speaker === "string" && segment.speaker.trim()
+      ? segment.speaker.trim()
+      : typeof segment.speaker_number === "number" ? `Speaker ${segment.speaker_number + 1}` : null;
+    utterances.push({
+      speaker,
+      start: toSeconds(segment.data_start) ?? toSeconds(timedWords[0]?.data_start) ?? 0,
+      end: toSeconds(segment.data_end) ?? toSeconds(timedWords[timedWords.length - 1]?.data_end),
+      text,
+    });
+  });
+  return utterances;
+}
+
+/**
+ * Parses a subtitle timestamp ("00:01:02,500", "01:02.500") into seconds.
+ */
+export function parseCueTime(value: string): number | null {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/);
+  if (!match) {
+    return null;
+  }
+  const [, hours, minutes, seconds, fraction] = match;
+  return Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, "0")) / 1000;
+}
+
+/**
+ * Identifies the agent among the speakers. A configured label wins; otherwise the
+ * speaker using the most agent phrases (net of customer phrases) is the agent,
+ * provided they stand out from the others. Everyone else is a customer.
+ * Transcripts without speaker labels, or with a single speaker, stay "unknown".
+ */
+export function assignSpeakerRoles(utterances: Utterance[], config: SpeakerRoleConfig): TranscriptModel {
+  const agentPhrases = config.agentPhrases.map(simplify);
+  const customerPhrases = config.customerPhrases.map(simplify);
+  const speakers: TranscriptSpeaker[] = [];
+  for (const utterance of utterances) {
+    if (utterance.speaker === null) {
+      continue;
+    }
+    let speaker = speakers.find((entry) => entry.label === utterance.speaker);
+    if (!speaker) {
+      speaker = { label: utterance.speaker, role: "unknown", utterances: 0, agentScore: 0 };
+      speakers.push(speaker);
+    }
+    const text = simplify(utterance.text);
+    speaker.utterances++;
+    speaker.agentScore += countPhrases(text, agentPhrases) - countPhrases(text, customerPhrases);
+  }
+
+  const configuredLabels = config.agentLabels.map((label) => label.toLowerCase());
+  const configured = speakers.filter((speaker) => configuredLabels.includes(speaker.label.toLowerCase()));
+  if (configured.length > 0) {
+    for (const speaker of speakers) {
+      speaker.role = configured.includes(speaker) ? "agent" : "customer";
+    }
+    return { utterances, speakers, agentDetection: "config" };
+  }
+  if (speakers.length < 2) {
+    return { utterances, speakers, agentDetection: "none" };
+  }
+
+  // Without any phrase signal, the speaking order alone is not trusted.
+  if (speakers.every((speaker) => speaker.agentScore === 0)) {
+    return { utterances, speakers, agentDetection: "none" };
+  }
+  const ranked = speakers
+    .map((speaker, index) => ({ speaker, score: speaker.agentScore + (index === 0 ? FIRST_SPEAKER_BONUS : 0) }))
+    .sort((a, b) => b.score - a.score);
+  if (ranked[0].score <= 0 || ranked[0].score === ranked[1].score) {
+    return { utterances, speakers, agentDetection: "none" };
+  }
+  for (const speaker of speakers) {
+    speaker.role = speaker === ranked[0].speaker ? "agent" : "customer";
+  }
+  return { utterances, speakers, agentDetection: "heuristic" };
+}
+
+/**
+ * The role of a speaker label in the model.
+ */
+export function speakerRole(model: TranscriptModel, speaker: string | null): SpeakerRole {
+  return model.speakers.find((entry) => entry.label === speaker)?.role ?? "unknown";
+}
+
+/**
+ * The label shown for a speaker: "Agente"/"Cliente" when the role is known, the source label otherwise.
+ */
+export function speakerDisplayName(model: TranscriptModel, speaker: string | null): string | null {
+  const role = speakerRole(model, speaker);
+  return role === "unknown" ? speaker : ROLE_LABELS[role];
+}
+
+/**
+ * Formats seconds as "mm:ss", or "h:mm:ss" past the hour.
+ */
+export function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = String(Math.floor((total % 3600) / 60)).padStart(2, "0");
+  const rest = String(total % 60).padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes}:${rest}` : `${minutes}:${rest}`;
+}
+
+/**
+ * The plain transcript: one line per utterance, without speakers or times.
+ */
+export function renderPlainText(utterances: Utterance[]): string {
+  return utterances.map((utterance) => utterance.text).join("\n");
+}
+
+/**
+ * The transcript as given to the model and attached to the CRM record: one
+ * "[mm:ss] Speaker: text" line per utterance.
+ */
+export function renderSpeakerText(model: TranscriptModel): string {
+  return model.utterances
+    .map((utterance) => {
+      const name = speakerDisplayName(model, utterance.speaker);
+      return `[${formatTimestamp(utterance.start)}] ${name ? `${name}: ` : ""}${utterance.text}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Finds the utterance an evidence quote was taken from (or the first of two
+ * consecutive utterances it spans). Returns null when the quote is not found.
+ */
+export function locateQuote(model: TranscriptModel, quote: string): QuoteLocation | null {
+  const { utterances } = model;
+  let index = utterances.findIndex((utterance) => quoteOccursIn(quote, utterance.text));
+  if (index === -1) {
+    index = utterances.findIndex((utterance, position) =>
+      position + 1 < utterances.length && quoteOccursIn(quote, `${utterance.text} ${utterances[position + 1].text}`)
+    );
+  }
+  if (index === -1) {
+    return null;
+  }
+  const { start, speaker } = utterances[index];
+  return { start, speaker, role: speakerRole(model, speaker) };
+}
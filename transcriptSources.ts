@@ -0,0 +1,276 @@
+import log from "./log.ts";
+import type { JobBlobs } from "./jobQueue.ts";
+import { parseCueTime, renderPlainText, type Utterance } from "./transcriptModel.ts";
+
+// --- Constants ---
+const DEFAULT_SOURCE = "happyscribe";
+// Blob holding a transcript submitted with the job (upload or local file).
+export const SUBMITTED_TRANSCRIPT_BLOB = "transcript_submitted";
+const WATCHED_EXTENSIONS = [".txt", ".srt", ".vtt"];
+// A file is picked up once it has not changed for this long, so half-written files are skipped.
+const FILE_SETTLE_MS = 2000;
+
+// --- Types ---
+export type TranscriptFormat = "text" | "srt" | "vtt";
+
+/**
+ * A transcript as the pipeline stores it: plain text and, when the source labels
+ * speakers, a version with a "Speaker: text" line per turn. Sources with
+ * timestamps also return the utterances, from which the pipeline builds the
+ * speaker-aware transcript model (and its own speaker-labelled text).
+ */
+export type LoadedTranscript = {
+  text: string;
+  speakerText: string | null;
+  utterances: Utterance[] | null;
+};
+
+/**
+ * A submitted transcript, kept in the SUBMITTED_TRANSCRIPT_BLOB blob.
+ */
+export type SubmittedTranscript = LoadedTranscript & {
+  format: TranscriptFormat;
+  fileName: string | null;
+};
+
+/**
+ * Where a job's transcript comes from. Jobs are keyed by "<source>:<id>";
+ * Happy Scribe jobs keep their bare transcription ID.
+ */
+export type TranscriptSource = {
+  name: string;
+  /**
+   * Loads the transcript of a job.
+   * @param sourceId The ID within the source (e.g. the Happy Scribe transcription ID).
+   * @param blobs The job's blobs, holding the transcript for submitted sources.
+   * @param jobId The job's ID, logged with the source's HTTP requests.
+   */
+  load(sourceId: string, blobs: JobBlobs, jobId: string): Promise<LoadedTranscript>;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Merges consecutive cues of the same speaker into utterances. Cues without a
+ * speaker are kept apart, so each keeps its own timestamp.
+ */
+function joinCues(cues: Utterance[]): LoadedTranscript {
+  const utterances: Utterance[] = [];
+  for (const cue of cues) {
+    const last = utterances[utterances.length - 1];
+    if (last && cue.speaker !== null && last.speaker === cue.speaker) {
+      last.text += ` ${cue.text}`;
+      last.end = cue.end;
+    } else {
+      utterances.push({ ...cue });
+    }
+  }
+  const hasSpeakers = utterances.some((utterance) => utterance.speaker !== null);
+  return {
+    text: renderPlainText(utterances),
+    speakerText: hasSpeakers ? utterances.map((utterance) => `${utterance.speaker ?? "?"}: ${utterance.text}`).join("\n") : null,
+    utterances,
+  };
+}
+
+/**
+ * Splits subtitle content into cues: the timing line's start and end, and the text lines after it.
+ */
+function cueBlocks(content: string): { start: number; end: number | null; lines: string[] }[] {
+  return content
+    .replace(/\r\n?/g, "\n")
+    .split(/\n{2,}/)
+    .map((block) => block.split("\n").map((line) => line.trim()).filter(Boolean))
+    .filter((lines) => lines.some((line) => line.includes("-->")))
+    .map((lines) => {
+      const timingIndex = lines.findIndex((line) => line.includes("-->"));
+      // WebVTT timing lines may carry cue settings after the end time ("00:01.000 --> 00:02.000 align:start").
+      const [start, end] = lines[timingIndex].split("-->").map((part) => parseCueTime(part.trim().split(/\s+/)[0]));
+      return { start: start ?? 0, end, lines: lines.slice(timingIndex + 1) };
+    });
+}
+
+/**
+ * Parses SRT subtitles.
+ */
+function parseSrt(content: string): LoadedTranscript {
+  return joinCues(
+    cueBlocks(content)
+      .map(({ start, end, lines }) => ({ speaker: null, start, end, text: lines.join(" ").replace(/<[^>]+>/g, "").trim() }))
+      .filter((cue) => cue.text !== "")
+  );
+}
+
+/**
+ * Parses WebVTT subtitles; `<v Speaker>` voice tags become speaker labels.
+ */
+function parseVtt(content: string): LoadedTranscript {
+  return joinCues(
+    cueBlocks(content)
+      .map(({ start, end, lines }) => {
+        const raw = lines.join(" ");
+        const speaker = raw.match(/<v(?:\.[\w.-]+)?\s+([^>]+)>/)?.[1].trim() ?? null;
+        return { speaker, start, end, text: raw.replace(/<[^>]+>/g, "").trim() };
+      })
+      .filter((cue) => cue.text !== "")
+  );
+}
+
+// --- Exported Functions ---
+
+/**
+ * Builds the job key for a transcript of a source.
+ */
+export function transcriptJobKey(source: string, sourceId: string): string {
+  return source === DEFAULT_SOURCE ? sourceId : `${source}:${sourceId}`;
+}
+
+/**
+ * Splits a job key back into its source and ID (bare IDs are Happy Scribe's).
+ */
+export function parseTranscriptJobKey(key: string): { source: string; sourceId: string } {
+  const separator = key.indexOf(":");
+  return separator === -1
+    ? { source: DEFAULT_SOURCE, sourceId: key }
+    : { source: key.slice(0, separator), sourceId: key.slice(separator + 1) };
+}
+
+/**
+ * Guesses the format from the file name, or else from the content.
+ */
+export function detectTranscriptFormat(content: string, fileName: string | null = null): TranscriptFormat {
+  const extension = fileName?.toLowerCase().match(/\.(\w+)$/)?.[1];
+  if (extension === "srt" || extension === "vtt") {
+    return extension;
+  }
+  if (/^\uFEFF?WEBVTT/.test(content)) {
+    return "vtt";
+  }
+  if (/^\s*\d+\s*\r?\n\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->/.test(content)) {
+    return "srt";
+  }
+  return "text";
+}
+
+/**
+ * Converts raw text, SRT or WebVTT into the pipeline's transcript form.
+ */
+export function parseTranscript(content: string, format: TranscriptFormat): LoadedTranscript {
+  switch (format) {
+    case "srt":
+      return parseSrt(content);
+    case "vtt":
+      return parseVtt(content);
+    default:
+      return { text: content.trim(), speakerText: null, utterances: null };
+  }
+}
+
+/**
+ * A content-derived ID, so submitting the same transcript twice maps to the same job.
+ */
+export async function contentId(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest).slice(0, 12), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Creates a source for transcripts stored with the job when it was submitted
+ * (direct uploads and local files).
+ */
+export function createSubmittedTranscriptSource(name: string): TranscriptSource {
+  return {
+    name,
+    async load(sourceId, blobs) {
+      const stored = await blobs.get(SUBMITTED_TRANSCRIPT_BLOB);
+      if (!stored) {
+        throw new Error(`Submitted transcript ${name}:${sourceId} is missing from the job.`);
+      }
+      const { text, speakerText, utterances } = JSON.parse(stored) as SubmittedTranscript;
+      return { text, speakerText, utterances: utterances ?? null }; // Submitted before timestamps were kept
+    },
+  };
+}
+
+/**
+ * Watches a directory for .txt, .srt and .vtt transcripts. Each file is parsed
+ * and handed to `submit`, then moved to "processed/" (or "failed/" when parsing
+ * or submission throws). Files already present at startup are picked up too.
+ * Runs until the signal is aborted.
+ */
+export async function watchTranscriptDirectory(
+  directory: string,
+  submit: (transcript: SubmittedTranscript, id: string) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> {
+  const functionName = "watchTranscriptDirectory";
+  await Deno.mkdir(`${directory}/processed`, { recursive: true });
+  await Deno.mkdir(`${directory}/failed`, { recursive: true });
+
+  let scanning = false;
+  let rescan = false;
+  let settleTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const scan = async (): Promise<void> => {
+    if (scanning) {
+      rescan = true;
+      return;
+    }
+    scanning = true;
+    let unsettled = false;
+    try {
+      for await (const entry of Deno.readDir(directory)) {
+        if (!entry.isFile || !WATCHED_EXTENSIONS.some((extension) => entry.name.toLowerCase().endsWith(extension))) {
+          continue;
+        }
+        const path = `${directory}/${entry.name}`;
+        const info = await Deno.stat(path);
+        if (info.mtime && Date.now() - info.mtime.getTime() < FILE_SETTLE_MS) {
+          unsettled = true;
+          continue;
+        }
+        let target = "processed";
+        try {
+          const content = await Deno.readTextFile(path);
+          const format = detectTranscriptFormat(content, entry.name);
+          const parsed = parseTranscript(content, format);
+          if (!parsed.text) {
+            throw new Error("File contains no transcript text.");
+          }
+          await submit({ ...parsed, format, fileName: entry.name }, await contentId(content));
+        } catch (error) {
+          target = "failed";
+          log(`[${functionName}] ERROR: Could not submit ${entry.name}:`, error instanceof Error ? error.message : String(error));
+        }
+        await Deno.rename(path, `${directory}/${target}/${entry.name}`);
+        log(`[${functionName}] ${entry.name} moved to ${target}/.`);
+      }
+    } catch (error) {
+      log(`[${functionName}] ERROR: Scanning ${directory} failed:`, error instanceof Error ? error.message : String(error));
+    } finally {
+      scanning = false;
+    }
+    if (rescan || unsettled) {
+      rescan = false;
+      scheduleScan();
+    }
+  };
+
+  const scheduleScan = () => {
+    clearTimeout(settleTimer);
+    settleTimer = setTimeout(scan, FILE_SETTLE_MS);
+  };
+
+  log(`[${functionName}] Watching ${directory} for transcripts (${WATCHED_EXTENSIONS.join(", ")}).`);
+  await scan();
+  const watcher = Deno.watchFs(directory, { recursive: false });
+  signal?.addEventListener("abort", () => {
+    clearTimeout(settleTimer);
+    watcher.close();
+  });
+  for await (const event of watcher) {
+    if (event.kind === "create" || event.kind === "modify") {
+      scheduleScan();
+    }
+  }
+}
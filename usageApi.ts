@@ -0,0 +1,73 @@
+import log from "./log.ts";
+import { errorResponse, isAuthorized } from "./adminApi.ts";
+import { usageDay, type UsageTracker } from "./llmUsage.ts";
+
+// --- Constants ---
+const DAY_ROUTE = /^\/usage\/(\d{4}-\d{2}-\d{2})$/;
+const DEFAULT_DAYS = 7;
+const MAX_DAYS = 90;
+
+// --- Types ---
+export type UsageApiOptions = {
+  /** Bearer token required on every usage route (the admin token). The API is disabled when unset. */
+  token: string | undefined;
+  tracker: UsageTracker;
+  /** Daily budget in the price table's currency, or null when there is none. */
+  dailyBudget: number | null;
+};
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the handler for the authenticated LLM usage routes:
+ * - `GET /usage?days=7` returns today's totals against the budget and the totals
+ *   of the most recent days with calls.
+ * - `GET /usage/:day` returns the totals of one UTC day (YYYY-MM-DD).
+ * Per-job totals are part of the job details (`GET /jobs/:transcriptionId`).
+ *
+ * The returned function resolves to null for paths it does not own.
+ */
+export function createUsageApi(options: UsageApiOptions) {
+  return async (
+    req: Request,
+    requestId: string
+  ): Promise<Response | null> => {
+    const url = new URL(req.url);
+    const dayMatch = url.pathname.match(DAY_ROUTE);
+    if (url.pathname !== "/usage" && !dayMatch) {
+      return null;
+    }
+
+    if (!options.token) {
+      log(`[${requestId}] Usage route requested but ADMIN_API_TOKEN is not configured.`);
+      return errorResponse(503, "Usage API is disabled.");
+    }
+    if (!isAuthorized(req, options.token)) {
+      log(`[${requestId}] ERROR: Unauthorized usage API request to ${url.pathname}.`);
+      return errorResponse(401, "Unauthorized");
+    }
+    if (req.method !== "GET") {
+      return errorResponse(405, "Method Not Allowed");
+    }
+
+    if (dayMatch) {
+      return Response.json({ day: dayMatch[1], totals: await options.tracker.dayTotals(dayMatch[1]) });
+    }
+
+    const days = parseInt(url.searchParams.get("days") ?? String(DEFAULT_DAYS), 10);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_DAYS) {
+      return errorResponse(400, `"days" must be between 1 and ${MAX_DAYS}.`);
+    }
+    const today = await options.tracker.dayTotals();
+    return Response.json({
+      today: {
+        day: usageDay(),
+        totals: today,
+        budget: options.dailyBudget,
+        remaining: options.dailyBudget === null ? null : Math.max(0, options.dailyBudget - today.cost),
+        overBudget: options.dailyBudget !== null && today.cost >= options.dailyBudget,
+      },
+      days: await options.tracker.recentDays(days),
+    });
+  };
+}
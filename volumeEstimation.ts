@@ -0,0 +1,336 @@
+import { validateAgainstSchema, type ObjectSchema, type ValidationResult } from "./schemaValidator.ts";
+
+// --- Types ---
+
+/**
+ * One inventory line as described by the customer, e.g. "sofá de 3 plazas" x 1.
+ */
+export type InventoryItem = {
+  item: string;
+  quantity: number;
+};
+
+export type CatalogItem = {
+  id: string;
+  label: string;
+  volumeM3: number;
+  /** Spanish/English descriptions that map to this item (matched word by word, plurals included). */
+  aliases: string[];
+};
+
+export type ContainerOption = {
+  id: string;
+  label: string;
+  /** Largest volume of goods this option is recommended for, in cubic meters. */
+  maxM3: number;
+  /** Container length in feet; null for consolidated (LCL) shipping. */
+  sizeFt: number | null;
+  highCube?: boolean;
+};
+
+export type VolumeCatalog = {
+  /** Multiplier from the furniture's own volume to the shipped volume (packing and stowage loss). */
+  packingFactor: number;
+  /** Shipping options from smallest to largest. */
+  containers: ContainerOption[];
+  items: CatalogItem[];
+};
+
+export type EstimatedItem = InventoryItem & {
+  /** Null when no catalog item matched the description. */
+  catalogId: string | null;
+  unitVolumeM3: number | null;
+  volumeM3: number | null;
+};
+
+export type ContainerRecommendation = {
+  containerId: string;
+  label: string;
+  /** More than 1 when the volume exceeds the largest container. */
+  count: number;
+};
+
+export type VolumeEstimate = {
+  items: EstimatedItem[];
+  /** Sum of the matched items' volumes. */
+  itemsM3: number;
+  /** itemsM3 with the packing factor applied; the basis for the recommendation. */
+  shippedM3: number;
+  /** Descriptions that did not match the catalog and are not counted. */
+  unmatched: string[];
+  recommendation: ContainerRecommendation | null;
+};
+
+/**
+ * The customer's own volume guess (a number of cubic meters or e.g. "1x20ft").
+ */
+export type StatedVolume = {
+  original: string;
+  /** The stated volume in cubic meters; for containers, their recommended maximum load. */
+  m3: number | null;
+  container: ContainerRecommendation | null;
+};
+
+// --- Constants ---
+const INVENTORY_ITEM_SCHEMA: ObjectSchema = {
+  item: { kinds: ["string"], nullable: false },
+  quantity: { kinds: ["number"], nullable: false },
+};
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases a description, strips accents and splits it into words.
+ */
+function toWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .split(" ")
+    .filter((word) => word.length > 0);
+}
+
+/**
+ * Whether the alias words occur consecutively in the description words,
+ * accepting plural forms ("cajas" for "caja", "boxes" for "box").
+ */
+function containsAlias(words: string[], aliasWords: string[]): boolean {
+  const matchesWord = (word: string, aliasWord: string) =>
+    word === aliasWord || word === `${aliasWord}s` || word === `${aliasWord}es`;
+  for (let start = 0; start + aliasWords.length <= words.length; start++) {
+    if (aliasWords.every((aliasWord, offset) => matchesWord(words[start + offset], aliasWord))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Rounds a volume for display and storage.
+ */
+function roundM3(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Validates the parsed catalog file, collecting every problem found.
+ */
+function validateCatalogFile(raw: unknown): string[] {
+  if (typeof raw !== "object" || raw === null) {
+    return ["Catalog file must contain a JSON object."];
+  }
+  const errors: string[] = [];
+  const { packingFactor, containers, items } = raw as Partial<VolumeCatalog>;
+  if (typeof packingFactor !== "number" || packingFactor < 1) {
+    errors.push(`"packingFactor" must be a number of at least 1.`);
+  }
+  if (!Array.isArray(containers) || containers.length === 0) {
+    errors.push(`"containers" must be a non-empty array.`);
+  } else {
+    containers.forEach((container, index) => {
+      if (typeof container?.id !== "string" || typeof container?.label !== "string") {
+        errors.push(`containers[${index}]: "id" and "label" are required.`);
+      }
+      if (typeof container?.maxM3 !== "number" || container.maxM3 <= 0) {
+        errors.push(`containers[${index}]: "maxM3" must be a positive number.`);
+      } else if (index > 0 && container.maxM3 <= containers[index - 1]?.maxM3) {
+        errors.push(`containers[${index}]: containers must be ordered by increasing "maxM3".`);
+      }
+    });
+  }
+  if (!Array.isArray(items) || items.length === 0) {
+    errors.push(`"items" must be a non-empty array.`);
+  } else {
+    const seenIds = new Set<string>();
+    items.forEach((item, index) => {
+      const where = `items[${index}]${item?.id ? ` ("${item.id}")` : ""}`;
+      if (typeof item?.id !== "string" || seenIds.has(item.id)) {
+        errors.push(`${where}: "id" must be a unique string.`);
+      } else {
+        seenIds.add(item.id);
+      }
+      if (typeof item?.volumeM3 !== "number" || item.volumeM3 <= 0) {
+        errors.push(`${where}: "volumeM3" must be a positive number.`);
+      }
+      if (!Array.isArray(item?.aliases) || item.aliases.length === 0 || item.aliases.some((alias) => typeof alias !== "string")) {
+        errors.push(`${where}: "aliases" must be a non-empty list of strings.`);
+      }
+    });
+  }
+  return errors;
+}
+
+// --- Exported Functions ---
+
+/**
+ * Loads and validates the item-volume catalog file.
+ * @param path Path to the JSON catalog file.
+ */
+export async function loadVolumeCatalog(path: string): Promise<VolumeCatalog> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await Deno.readTextFile(path));
+  } catch (error) {
+    throw new Error(
+      `Failed to read volume catalog "${path}": ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  }
+  const errors = validateCatalogFile(raw);
+  if (errors.length > 0) {
+    throw new Error(`Invalid volume catalog "${path}":\n- ${errors.join("\n- ")}`);
+  }
+  return raw as VolumeCatalog;
+}
+
+/**
+ * Validates a model response shaped as `{ "items": [{ "item", "quantity" }] }`.
+ * Quantities are rounded to whole items.
+ */
+export function validateInventory(input: unknown): ValidationResult<InventoryItem[]> {
+  const items = (input as { items?: unknown } | null)?.items;
+  if (!Array.isArray(items)) {
+    return { ok: false, errors: [`Expected an object with an "items" array`] };
+  }
+
+  const errors: string[] = [];
+  const coercions: string[] = [];
+  const inventory: InventoryItem[] = [];
+  items.forEach((entry, index) => {
+    const validation = validateAgainstSchema<InventoryItem>(entry, INVENTORY_ITEM_SCHEMA);
+    if (!validation.ok) {
+      errors.push(...validation.errors.map((error) => `items[${index}]: ${error}`));
+      return;
+    }
+    coercions.push(...validation.coercions.map((note) => `items[${index}]: ${note}`));
+    const quantity = Math.round(validation.value.quantity);
+    if (quantity <= 0) {
+      errors.push(`items[${index}]: "quantity" must be at least 1, got ${validation.value.quantity}`);
+      return;
+    }
+    inventory.push({ item: validation.value.item.trim(), quantity });
+  });
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value: inventory, coercions };
+}
+
+/**
+ * Merges inventories extracted from overlapping transcript chunks. The same
+ * item in several chunks is usually the overlap or a restatement, so the
+ * highest quantity is kept rather than the sum.
+ */
+export function mergeInventories(inventories: InventoryItem[][]): InventoryItem[] {
+  const merged = new Map<string, InventoryItem>();
+  for (const inventory of inventories) {
+    for (const entry of inventory) {
+      const key = toWords(entry.item).join(" ");
+      const existing = merged.get(key);
+      if (!existing || entry.quantity > existing.quantity) {
+        merged.set(key, entry);
+      }
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * Finds the catalog item for a description; the most specific (longest) alias wins,
+ * so "cama queen" beats "cama".
+ */
+export function matchCatalogItem(description: string, catalog: VolumeCatalog): CatalogItem | null {
+  const words = toWords(description);
+  let best: { item: CatalogItem; aliasWords: string[] } | null = null;
+  for (const item of catalog.items) {
+    for (const alias of item.aliases) {
+      const aliasWords = toWords(alias);
+      const isMoreSpecific =
+        !best ||
+        aliasWords.length > best.aliasWords.length ||
+        (aliasWords.length === best.aliasWords.length && aliasWords.join(" ").length > best.aliasWords.join(" ").length);
+      if (isMoreSpecific && containsAlias(words, aliasWords)) {
+        best = { item, aliasWords };
+      }
+    }
+  }
+  return best?.item ?? null;
+}
+
+/**
+ * Recommends the smallest shipping option that fits a volume, or several of the
+ * largest container when none does.
+ */
+export function recommendContainer(m3: number, catalog: VolumeCatalog): ContainerRecommendation | null {
+  if (m3 <= 0) {
+    return null;
+  }
+  const fitting = catalog.containers.find((container) => m3 <= container.maxM3);
+  if (fitting) {
+    return { containerId: fitting.id, label: fitting.label, count: 1 };
+  }
+  const largest = catalog.containers[catalog.containers.length - 1];
+  return { containerId: largest.id, label: largest.label, count: Math.ceil(m3 / largest.maxM3) };
+}
+
+/**
+ * Computes the volume of an inventory from the catalog and recommends a container.
+ * Items that match no catalog entry are listed as unmatched and not counted.
+ */
+export function estimateVolume(inventory: InventoryItem[], catalog: VolumeCatalog): VolumeEstimate {
+  const items: EstimatedItem[] = inventory.map((entry) => {
+    const match = matchCatalogItem(entry.item, catalog);
+    return {
+      ...entry,
+      catalogId: match?.id ?? null,
+      unitVolumeM3: match?.volumeM3 ?? null,
+      volumeM3: match ? roundM3(match.volumeM3 * entry.quantity) : null,
+    };
+  });
+  const itemsM3 = roundM3(items.reduce((total, item) => total + (item.volumeM3 ?? 0), 0));
+  const shippedM3 = roundM3(itemsM3 * catalog.packingFactor);
+  return {
+    items,
+    itemsM3,
+    shippedM3,
+    unmatched: items.filter((item) => item.catalogId === null).map((item) => item.item),
+    recommendation: recommendContainer(shippedM3, catalog),
+  };
+}
+
+/**
+ * Interprets the customer's stated volume: a number of cubic meters ("30",
+ * "30 m3") or a container description ("1x20ft", "un contenedor de 40 pies").
+ */
+export function parseStatedVolume(value: number | string, catalog: VolumeCatalog): StatedVolume {
+  const original = String(value);
+  if (typeof value === "number") {
+    return { original, m3: value, container: null };
+  }
+
+  // "1x20ft" -> "1 x 20 ft", so counts, sizes and units are separate words.
+  const text = toWords(value)
+    .join(" ")
+    .replace(/(\d)([a-z])/g, "$1 $2")
+    .replace(/([a-z])(\d)/g, "$1 $2");
+  const containerMatch = text.match(/(?:\b(\d+) x )?\b(20|40)\b(?: (?:ft|pies|pie|feet|foot))?( (?:hc|high cube))?/);
+  if (containerMatch && /\b(ft|pies|pie|feet|foot|contenedor|contenedores|container|containers|x)\b/.test(text)) {
+    const sizeFt = Number(containerMatch[2]);
+    const highCube = Boolean(containerMatch[3]);
+    const container =
+      catalog.containers.find((candidate) => candidate.sizeFt === sizeFt && Boolean(candidate.highCube) === highCube) ??
+      catalog.containers.find((candidate) => candidate.sizeFt === sizeFt);
+    if (container) {
+      const count = containerMatch[1] ? Number(containerMatch[1]) : 1;
+      return {
+        original,
+        m3: container.maxM3 * count,
+        container: { containerId: container.id, label: container.label, count },
+      };
+    }
+  }
+
+  const m3Match = value.replace(",", ".").match(/(\d+(?:\.\d+)?)\s*(?:m3|m³|cbm|metros? cubicos?|metros? cúbicos?|cubic met(?:er|re)s?)?/i);
+  return { original, m3: m3Match ? parseFloat(m3Match[1]) : null, container: null };
+}
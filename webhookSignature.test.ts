@@ -0,0 +1,74 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { createWebhookVerifier, timingSafeEqual } from "./webhookSignature.ts";
+
+const SECRET = "test-secret";
+const BODY = JSON.stringify({ transcription: { id: "abc123" } });
+
+/**
+ * Signs a delivery the way Happy Scribe does and returns its headers.
+ */
+async function signedHeaders(body: string, { timestamp = Math.floor(Date.now() / 1000), nonce = "nonce-1" as string | null, secret = SECRET } = {}): Promise<Headers> {
+  const key = await crypto.subtle.importKey("raw", new TextEncoder().encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const payload = nonce ? `${timestamp}.${nonce}.${body}` : `${timestamp}.${body}`;
+  const digest = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  const signature = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  const headers = new Headers({ "x-happyscribe-signature": `sha256=${signature}`, "x-happyscribe-timestamp": String(timestamp) });
+  if (nonce) {
+    headers.set("x-happyscribe-nonce", nonce);
+  }
+  return headers;
+}
+
+/**
+ * Runs a test against a verifier backed by a fresh in-memory KV.
+ */
+function withVerifier(name: string, fn: (kv: Deno.Kv, verifier: ReturnType<typeof createWebhookVerifier>) => Promise<void>): void {
+  Deno.test(name, async () => {
+    const kv = await Deno.openKv(":memory:");
+    try {
+      await fn(kv, createWebhookVerifier(kv, SECRET, 300));
+    } finally {
+      kv.close();
+    }
+  });
+}
+
+Deno.test("timingSafeEqual compares strings", () => {
+  assertEquals(timingSafeEqual("abc", "abc"), true);
+  assertEquals(timingSafeEqual("abc", "abd"), false);
+  assertEquals(timingSafeEqual("abc", "ab"), false);
+});
+
+withVerifier("verify accepts a correctly signed request, with or without a nonce", async (_kv, verifier) => {
+  assertEquals(await verifier.verify(await signedHeaders(BODY), BODY), { valid: true, replayKey: "nonce:nonce-1" });
+  const unsigned = await verifier.verify(await signedHeaders(BODY, { nonce: null }), BODY);
+  assertEquals(unsigned.valid && unsigned.replayKey.startsWith("sig:"), true);
+});
+
+withVerifier("verify rejects a wrong secret, a tampered body and missing headers", async (_kv, verifier) => {
+  assertEquals(await verifier.verify(await signedHeaders(BODY, { secret: "other" }), BODY), { valid: false, reason: "Signature mismatch" });
+  assertEquals(await verifier.verify(await signedHeaders(BODY), BODY.replace("abc123", "xyz789")), { valid: false, reason: "Signature mismatch" });
+  assertEquals(await verifier.verify(new Headers(), BODY), { valid: false, reason: "Missing signature or timestamp header" });
+});
+
+withVerifier("verify enforces the timestamp tolerance in seconds and milliseconds", async (_kv, verifier) => {
+  const now = Math.floor(Date.now() / 1000);
+  assertEquals((await verifier.verify(await signedHeaders(BODY, { timestamp: now - 290 }), BODY)).valid, true);
+  assertEquals((await verifier.verify(await signedHeaders(BODY, { timestamp: Date.now() - 10_000 }), BODY)).valid, true);
+  assertEquals(await verifier.verify(await signedHeaders(BODY, { timestamp: now - 310 }), BODY), { valid: false, reason: "Timestamp outside tolerance of 300s" });
+  assertEquals(await verifier.verify(await signedHeaders(BODY, { timestamp: now + 310 }), BODY), { valid: false, reason: "Timestamp outside tolerance of 300s" });
+});
+
+withVerifier("verify rejects a replay only once the delivery is consumed", async (kv, verifier) => {
+  const headers = await signedHeaders(BODY);
+  const first = await verifier.verify(headers, BODY);
+  // Not consumed yet (e.g. saving the job failed): the retry is accepted.
+  assertEquals((await verifier.verify(headers, BODY)).valid, true);
+
+  assertEquals(first.valid && await verifier.markConsumed(first.replayKey), true);
+  assertEquals(first.valid && await verifier.markConsumed(first.replayKey), false);
+  assertEquals(await verifier.verify(headers, BODY), { valid: false, reason: "Replayed request" });
+  // Kept in KV, so a restarted or second worker rejects it too.
+  assertEquals(await createWebhookVerifier(kv, SECRET, 300).verify(headers, BODY), { valid: false, reason: "Replayed request" });
+  assertEquals((await verifier.verify(await signedHeaders(BODY, { nonce: "nonce-2" }), BODY)).valid, true);
+});
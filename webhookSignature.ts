@@ -0,0 +1,177 @@
+import log from "./log.ts";
+
+// --- Constants ---
+const SIGNATURE_HEADER = "x-happyscribe-signature";
+const TIMESTAMP_HEADER = "x-happyscribe-timestamp";
+const NONCE_HEADER = "x-happyscribe-nonce";
+const DEFAULT_TOLERANCE_SECONDS = 300;
+const REPLAY_PREFIX = "webhook_replay";
+
+// --- Types ---
+export type SignatureVerificationResult =
+  | { valid: true; replayKey: string }
+  | { valid: false; reason: string };
+
+// --- Helper Functions ---
+
+/**
+ * Encodes an ArrayBuffer as a lowercase hex string.
+ */
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+/**
+ * Compares two strings in constant time (for equal lengths) to avoid leaking
+ * how many leading characters of a signature matched.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) {
+    return false;
+  }
+  let mismatch = 0;
+  for (let i = 0; i < a.length; i++) {
+    mismatch |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
+
+/**
+ * Parses the timestamp header into milliseconds. Accepts unix seconds or milliseconds.
+ */
+function parseTimestampMs(value: string): number | null {
+  if (!/^\d+$/.test(value)) {
+    return null;
+  }
+  const numeric = parseInt(value, 10);
+  return numeric > 1e12 ? numeric : numeric * 1000;
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates a verifier for Happy Scribe webhook requests.
+ *
+ * The sender signs `${timestamp}.${rawBody}` (or `${timestamp}.${nonce}.${rawBody}`
+ * when a nonce header is sent) with HMAC-SHA256 using the shared secret, and sends
+ * the hex digest in the signature header (optionally prefixed with "sha256=").
+ * Requests outside the timestamp tolerance are rejected, and each nonce (or the
+ * signature itself when no nonce is sent) is accepted only once within that window.
+ *
+ * Verifying does not use up the nonce: call `markConsumed` once the delivery has
+ * been handled, so a retry of a delivery that failed on our side is still accepted.
+ * Consumed nonces are kept in Deno KV, shared by every worker and across restarts.
+ */
+export function createWebhookVerifier(
+  kv: Deno.Kv,
+  secret: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+) {
+  if (!secret) {
+    throw new Error("Webhook signing secret is required.");
+  }
+  if (toleranceSeconds <= 0) {
+    throw new Error("toleranceSeconds must be greater than 0.");
+  }
+
+  const toleranceMs = toleranceSeconds * 1000;
+  // A consumed key must outlive every timestamp that could still be accepted with it.
+  const replayWindowMs = toleranceMs * 2;
+  const keyPromise = crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+
+  /**
+   * Reads when a consumed replay key can be forgotten. KV deletes expired keys
+   * lazily, so the stored expiry is checked as well.
+   */
+  const readReplayKey = async (replayKey: string) => {
+    const entry = await kv.get<number>([REPLAY_PREFIX, replayKey]);
+    return { entry, consumed: entry.value !== null && entry.value > Date.now() };
+  };
+
+  /**
+   * Verifies the signature, timestamp and replay state of a webhook request.
+   * @param headers The incoming request headers.
+   * @param rawBody The exact request body text that was signed.
+   */
+  const verify = async (
+    headers: Headers,
+    rawBody: string
+  ): Promise<SignatureVerificationResult> => {
+    const signatureHeader = headers.get(SIGNATURE_HEADER);
+    const timestampHeader = headers.get(TIMESTAMP_HEADER);
+    const nonce = headers.get(NONCE_HEADER);
+
+    if (!signatureHeader || !timestampHeader) {
+      return { valid: false, reason: "Missing signature or timestamp header" };
+    }
+
+    const timestampMs = parseTimestampMs(timestampHeader.trim());
+    if (timestampMs === null) {
+      return { valid: false, reason: "Malformed timestamp header" };
+    }
+
+    const now = Date.now();
+    if (Math.abs(now - timestampMs) > toleranceMs) {
+      return {
+        valid: false,
+        reason: `Timestamp outside tolerance of ${toleranceSeconds}s`,
+      };
+    }
+
+    const signedPayload = nonce
+      ? `${timestampHeader.trim()}.${nonce}.${rawBody}`
+      : `${timestampHeader.trim()}.${rawBody}`;
+    const expectedSignature = toHex(
+      await crypto.subtle.sign(
+        "HMAC",
+        await keyPromise,
+        new TextEncoder().encode(signedPayload)
+      )
+    );
+    const providedSignature = signatureHeader
+      .trim()
+      .replace(/^sha256=/i, "")
+      .toLowerCase();
+
+    if (!timingSafeEqual(providedSignature, expectedSignature)) {
+      return { valid: false, reason: "Signature mismatch" };
+    }
+
+    const replayKey = nonce ? `nonce:${nonce}` : `sig:${providedSignature}`;
+    if ((await readReplayKey(replayKey)).consumed) {
+      log(`[verifyWebhook] Rejected replayed webhook request (${replayKey}).`);
+      return { valid: false, reason: "Replayed request" };
+    }
+
+    return { valid: true, replayKey };
+  };
+
+  /**
+   * Records a verified request as handled, so later deliveries with the same
+   * replay key are rejected. Returns false when it had already been consumed
+   * (a concurrent duplicate delivery).
+   * @param replayKey The key returned by `verify`.
+   */
+  const markConsumed = async (replayKey: string): Promise<boolean> => {
+    const { entry, consumed } = await readReplayKey(replayKey);
+    if (consumed) {
+      return false;
+    }
+    const result = await kv
+      .atomic()
+      .check(entry)
+      .set([REPLAY_PREFIX, replayKey], Date.now() + replayWindowMs, { expireIn: replayWindowMs })
+      .commit();
+    return result.ok;
+  };
+
+  return { verify, markConsumed };
+}
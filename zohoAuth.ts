@@ -0,0 +1,176 @@
+import log from "./log.ts";
+import type { HttpRequest, HttpRequestInit } from "./httpClient.ts";
+
+// --- Constants ---
+const TOKEN_PREFIX = "zoho_token";
+const EXPIRY_BUFFER_MS = 60 * 1000; // Refresh a minute before Zoho expires the token
+
+// --- Types ---
+export type ZohoToken = {
+  accessToken: string;
+  /** API base URL of the account's datacenter, e.g. "https://www.zohoapis.eu". */
+  apiDomain: string;
+  expiresAt: number;
+};
+
+export type ZohoAuthOptions = {
+  clientId: string;
+  clientSecret: string;
+  refreshToken: string;
+  /** Accounts server of the datacenter the refresh token was issued by, e.g. "https://accounts.zoho.eu". */
+  accountsUrl: string;
+  /** Used when the token response has no api_domain. */
+  defaultApiDomain: string;
+  /** Client used for the token endpoint and the API calls. */
+  request: HttpRequest;
+};
+
+// --- Helper Functions ---
+
+/**
+ * Persisted tokens are keyed by client and refresh token, so changing either
+ * in the environment never reuses a token issued for the old credentials.
+ */
+async function tokenKey(options: ZohoAuthOptions): Promise<Deno.KvKey> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(options.refreshToken));
+  const hash = Array.from(new Uint8Array(digest).slice(0, 8), (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return [TOKEN_PREFIX, options.clientId, hash];
+}
+
+/**
+ * Whether a 401 response is Zoho rejecting the access token (expired or revoked).
+ */
+async function isInvalidTokenResponse(response: Response): Promise<boolean> {
+  if (response.status !== 401) {
+    return false;
+  }
+  try {
+    const body = await response.clone().json();
+    return body?.code === "INVALID_TOKEN";
+  } catch {
+    return false;
+  }
+}
+
+// --- Main Exported Function ---
+
+/**
+ * Creates the Zoho OAuth token manager.
+ *
+ * The access token is kept in memory and in Deno KV, so restarts reuse it
+ * instead of refreshing. Concurrent callers that find it expired share a single
+ * refresh request, since Zoho rate-limits the token endpoint hard.
+ */
+export function createZohoAuth(kv: Deno.Kv, options: ZohoAuthOptions) {
+  let cached: ZohoToken | null = null;
+  let refreshing: Promise<ZohoToken> | null = null;
+  const keyPromise = tokenKey(options);
+
+  const isFresh = (token: ZohoToken | null): token is ZohoToken =>
+    !!token && Date.now() < token.expiresAt - EXPIRY_BUFFER_MS;
+
+  async function refresh(requestId?: string): Promise<ZohoToken> {
+    const functionName = "refreshZohoToken";
+    log(`[${functionName}] Refreshing Zoho access token...`);
+    const params = new URLSearchParams({
+      client_id: options.clientId,
+      client_secret: options.clientSecret,
+      refresh_token: options.refreshToken,
+      grant_type: "refresh_token",
+    });
+    // Refreshing twice only mints another token, so the request may be retried.
+    const response = await options.request(`${options.accountsUrl}/oauth/v2/token`, {
+      method: "POST",
+      body: params,
+      idempotent: true,
+      label: "Zoho token refresh",
+      requestId,
+    });
+    if (!response.ok) {
+      const errorText = await response.text();
+      log(`[${functionName}] ERROR: Failed to refresh Zoho token - Status ${response.status}`, errorText);
+      throw new Error(`Failed to refresh Zoho token: ${response.status} ${errorText}`);
+    }
+
+    // The response holds the access token: only the non-secret fields are logged.
+    const tokenData = await response.json();
+    if (tokenData.error) {
+      log(`[${functionName}] ERROR: Zoho token refresh API returned error:`, tokenData.error);
+      throw new Error(`Zoho token refresh error: ${tokenData.error}`);
+    }
+    if (!tokenData.access_token) {
+      throw new Error("Access token not found in Zoho token refresh response.");
+    }
+
+    const token: ZohoToken = {
+      accessToken: tokenData.access_token,
+      apiDomain: tokenData.api_domain || options.defaultApiDomain,
+      expiresAt: Date.now() + Number(tokenData.expires_in ?? 3600) * 1000,
+    };
+    await kv.set(await keyPromise, token, { expireIn: token.expiresAt - Date.now() });
+    log(`[${functionName}] Refreshed Zoho access token for ${token.apiDomain}. Expires around: ${new Date(token.expiresAt).toISOString()}`);
+    return token;
+  }
+
+  /**
+   * Returns a valid token: the cached one, the persisted one, or a new one.
+   * @param requestId Logged with the refresh request, if one is made.
+   */
+  async function getToken(requestId?: string): Promise<ZohoToken> {
+    if (isFresh(cached)) {
+      return cached;
+    }
+    if (!refreshing) {
+      refreshing = (async () => {
+        const persisted = (await kv.get<ZohoToken>(await keyPromise)).value;
+        return isFresh(persisted) ? persisted : await refresh(requestId);
+      })().finally(() => {
+        refreshing = null;
+      });
+    }
+    cached = await refreshing;
+    return cached;
+  }
+
+  /**
+   * Drops a token Zoho rejected. A token that was already replaced by a newer
+   * one (another caller refreshed in the meantime) is left alone.
+   */
+  async function invalidate(accessToken: string): Promise<void> {
+    if (cached?.accessToken === accessToken) {
+      cached = null;
+    }
+    const key = await keyPromise;
+    const persisted = await kv.get<ZohoToken>(key);
+    if (persisted.value?.accessToken === accessToken) {
+      await kv.atomic().check(persisted).delete(key).commit();
+    }
+  }
+
+  return {
+    getToken,
+    invalidate,
+
+    /**
+     * Calls the Zoho API of the account's datacenter with a valid token.
+     * On a 401 INVALID_TOKEN the token is invalidated and the request is retried once.
+     * @param path API path, e.g. "/crm/v2/Leads".
+     * @param init Request options; the body must be reusable (string, FormData, URLSearchParams).
+     *   Its requestId is also logged with a token refresh the call triggers.
+     */
+    async fetch(path: string, init: HttpRequestInit = {}): Promise<Response> {
+      for (let attempt = 1; ; attempt++) {
+        const token = await getToken(init.requestId);
+        const headers = new Headers(init.headers);
+        headers.set("Authorization", `Zoho-oauthtoken ${token.accessToken}`);
+        const response = await options.request(`${token.apiDomain}${path}`, { ...init, headers });
+        if (attempt === 1 && await isInvalidTokenResponse(response)) {
+          log(`[zohoFetch] Zoho rejected the access token (INVALID_TOKEN); refreshing and retrying ${path} once.`);
+          await invalidate(token.accessToken);
+          continue;
+        }
+        return response;
+      }
+    },
+  };
+}
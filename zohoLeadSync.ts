@@ -0,0 +1,137 @@
+import type { NormalizedValue } from "./normalization.ts";
+import { splitFullName } from "./zohoMatching.ts";
+
+// --- Types ---
+
+/**
+ * What to do with Lead fields that already have a value in Zoho:
+ * - `fill_empty`: never touch them, only fill empty fields.
+ * - `overwrite`: replace them with the extracted value.
+ * - `overwrite_confident`: replace them only when the extracted value is not flagged as low confidence.
+ */
+export type LeadOverwritePolicy = "fill_empty" | "overwrite" | "overwrite_confident";
+
+/**
+ * Maps an extracted key to a Zoho Lead API field name (standard or custom, e.g. "Destination_Country").
+ * "Full_Name" (read-only in Zoho) is written as First_Name and Last_Name.
+ */
+export type LeadFieldMapping = {
+  key: string;
+  zohoField: string;
+};
+
+export type LeadUpdatePlan = {
+  /** Zoho fields to send, by API name. */
+  changes: Record<string, unknown>;
+  /** Zoho fields left alone because they already had a different value. */
+  kept: string[];
+};
+
+// --- Constants ---
+const FULL_NAME_FIELD = "Full_Name";
+
+export const LEAD_OVERWRITE_POLICIES: LeadOverwritePolicy[] = ["fill_empty", "overwrite", "overwrite_confident"];
+
+// --- Helper Functions ---
+
+/**
+ * Whether a Zoho field value counts as empty.
+ */
+function isEmptyZohoValue(value: unknown): boolean {
+  return value === null || value === undefined || (typeof value === "string" && value.trim() === "");
+}
+
+/**
+ * Compares values loosely, so "+50688887777" and 50688887777 or differently
+ * cased text don't count as a change.
+ */
+function sameValue(a: unknown, b: unknown): boolean {
+  return String(a).trim().toLowerCase() === String(b).trim().toLowerCase();
+}
+
+/**
+ * The value to send to Zoho for a field: the normalized form when normalization
+ * succeeded (E.164 phone, English country name, checked postal code), otherwise
+ * the extracted value.
+ */
+function zohoValue(value: unknown, normalized: NormalizedValue | undefined): unknown {
+  switch (normalized?.kind) {
+    case "phone":
+      return normalized.e164 ?? value;
+    case "country":
+      return normalized.name ?? value;
+    case "postalCode":
+      return normalized.valid ? normalized.normalized : value;
+    default:
+      return value;
+  }
+}
+
+// --- Exported Functions ---
+
+/**
+ * Builds the Zoho Lead fields for the extracted values that have a mapping and a value.
+ * @param values Extracted values by key.
+ * @param normalized Normalization results by key.
+ * @param mappings Extracted key to Zoho field name.
+ */
+export function buildLeadFields(
+  values: Record<string, unknown>,
+  normalized: Record<string, NormalizedValue>,
+  mappings: LeadFieldMapping[]
+): Record<string, unknown> {
+  const fields: Record<string, unknown> = {};
+  for (const { key, zohoField } of mappings) {
+    if (isEmptyZohoValue(values[key])) {
+      continue;
+    }
+    if (zohoField === FULL_NAME_FIELD) {
+      const { firstName, lastName } = splitFullName(String(values[key]));
+      if (firstName) {
+        fields.First_Name = firstName;
+      }
+      fields.Last_Name = lastName;
+    } else {
+      fields[zohoField] = zohoValue(values[key], normalized[key]);
+    }
+  }
+  return fields;
+}
+
+/**
+ * The extracted key a Zoho Lead field is written from, if any.
+ */
+export function mappedKey(mappings: LeadFieldMapping[], zohoField: string): string | undefined {
+  const fields = zohoField === "First_Name" || zohoField === "Last_Name" ? [zohoField, FULL_NAME_FIELD] : [zohoField];
+  return mappings.find((mapping) => fields.includes(mapping.zohoField))?.key;
+}
+
+/**
+ * Decides which fields of an existing Lead to update.
+ * @param existing The Lead record as returned by Zoho.
+ * @param desired The fields built from the extraction.
+ * @param policy What to do with fields that already have a value.
+ * @param isConfident Whether the extracted value for a Zoho field is trustworthy (for `overwrite_confident`).
+ */
+export function planLeadUpdate(
+  existing: Record<string, unknown>,
+  desired: Record<string, unknown>,
+  policy: LeadOverwritePolicy,
+  isConfident: (zohoField: string) => boolean = () => true
+): LeadUpdatePlan {
+  const changes: Record<string, unknown> = {};
+  const kept: string[] = [];
+  for (const [zohoField, value] of Object.entries(desired)) {
+    const current = existing[zohoField];
+    if (isEmptyZohoValue(current)) {
+      changes[zohoField] = value;
+    } else if (sameValue(current, value)) {
+      continue;
+    } else if (policy === "overwrite" || (policy === "overwrite_confident" && isConfident(zohoField))) {
+      changes[zohoField] = value;
+    } else {
+      kept.push(zohoField);
+    }
+  }
+  return { changes, kept };
+}
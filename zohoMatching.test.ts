@@ -0,0 +1,100 @@
+import { assertEquals } from "https://deno.land/std@0.224.0/assert/mod.ts";
+import { buildMatchQueries, resolveMatch, splitFullName, type MatchInput, type ZohoSearchHit } from "./zohoMatching.ts";
+
+/**
+ * A caller with every detail known; tests override what they exercise.
+ */
+function input(overrides: Partial<MatchInput> = {}): MatchInput {
+  return {
+    email: "juan@example.com",
+    phoneVariants: ["+50688887777", "88887777"],
+    name: "Juan Pérez Mora",
+    city: "San José",
+    ...overrides,
+  };
+}
+
+/**
+ * A Lead or Contact record with the given fields.
+ */
+function hit(module: ZohoSearchHit["module"], id: string, fields: Record<string, unknown> = {}): ZohoSearchHit {
+  return { module, record: { id, First_Name: "Juan", Last_Name: "Pérez Mora", ...fields } };
+}
+
+Deno.test("splitFullName keeps every surname in the last name", () => {
+  assertEquals(splitFullName("Juan Pérez Mora"), { firstName: "Juan", lastName: "Pérez Mora" });
+  assertEquals(splitFullName("  Ana   López "), { firstName: "Ana", lastName: "López" });
+  assertEquals(splitFullName("Madonna"), { firstName: null, lastName: "Madonna" });
+});
+
+Deno.test("buildMatchQueries searches every email field of the modules that have one", () => {
+  assertEquals(buildMatchQueries("email", input({ email: " juan@example.com " })), [
+    { module: "Contacts", strategy: "email", criteria: "((Email:equals:juan@example.com)or(Secondary_Email:equals:juan@example.com))" },
+    { module: "Leads", strategy: "email", criteria: "((Email:equals:juan@example.com)or(Secondary_Email:equals:juan@example.com))" },
+  ]);
+  assertEquals(buildMatchQueries("email", input({ email: null })), []);
+});
+
+Deno.test("buildMatchQueries splits phone searches into criteria of at most 10 conditions", () => {
+  const queries = buildMatchQueries("phone", input({ phoneVariants: ["+50688887777", "50688887777", "88887777"] }));
+  // Contacts: 4 fields × 3 spellings = 12 conditions, in two criteria; Leads: 2 × 3 = 6, in one.
+  assertEquals(queries.map((query) => query.module), ["Contacts", "Contacts", "Leads"]);
+  assertEquals(queries[1].criteria, "((Other_Phone:equals:50688887777)or(Other_Phone:equals:88887777))");
+});
+
+Deno.test("buildMatchQueries searches names by surname and city, and Deals by full name", () => {
+  assertEquals(buildMatchQueries("name_city", input({ name: "Juan Pérez (hijo)" })).map((query) => query.criteria), [
+    "((Last_Name:starts_with:Pérez)and(Mailing_City:equals:San José))",
+    "((Last_Name:starts_with:Pérez)and(City:equals:San José))",
+  ]);
+  assertEquals(buildMatchQueries("name", input()), [{ module: "Deals", strategy: "name", criteria: "(Deal_Name:starts_with:Juan Pérez Mora)" }]);
+  assertEquals(buildMatchQueries("name_city", input({ city: null })), []);
+});
+
+Deno.test("resolveMatch prefers the strongest strategy, then Contacts over Leads", () => {
+  const result = resolveMatch(
+    [hit("Leads", "L1", { Email: "JUAN@example.com" }), hit("Contacts", "C1", { Phone: "8888-7777" }), hit("Contacts", "C2", { Email: "juan@example.com" })],
+    input()
+  );
+  assertEquals(result.status, "matched");
+  assertEquals(result.match?.id, "C2");
+  assertEquals(result.candidates.map((candidate) => [candidate.id, candidate.score]), [["C2", 100], ["L1", 100], ["C1", 70]]);
+  assertEquals(result.candidates[2].matchedOn, ["phone:Phone"]);
+});
+
+Deno.test("resolveMatch compares names and cities without accents or case", () => {
+  const result = resolveMatch([hit("Leads", "L1", { Last_Name: "perez", City: "SAN JOSE" })], input({ email: null, phoneVariants: [] }));
+  assertEquals(result.match?.matchedOn, ["name_city"]);
+});
+
+Deno.test("resolveMatch picks the latest duplicate when the email matches", () => {
+  const result = resolveMatch(
+    [
+      hit("Leads", "L1", { Email: "juan@example.com", Modified_Time: "2026-01-01T00:00:00Z" }),
+      hit("Leads", "L2", { Email: "juan@example.com", Modified_Time: "2026-06-01T00:00:00Z" }),
+    ],
+    input({ phoneVariants: [] })
+  );
+  assertEquals(result.status, "matched");
+  assertEquals(result.match?.id, "L2");
+});
+
+Deno.test("resolveMatch is ambiguous when different people share a phone", () => {
+  const result = resolveMatch(
+    [hit("Leads", "L1", { Mobile: "88887777", First_Name: "Ana" }), hit("Leads", "L2", { Phone: "+506 8888 7777", First_Name: "Luis" })],
+    input({ email: null, city: null })
+  );
+  assertEquals(result.status, "ambiguous");
+  assertEquals(result.match, null);
+  assertEquals(result.candidates.length, 2);
+});
+
+Deno.test("resolveMatch ignores records that match nothing or repeat", () => {
+  assertEquals(resolveMatch([hit("Leads", "L1", { First_Name: "Otro", Last_Name: "Nombre" })], input({ email: null, phoneVariants: [] })), {
+    status: "none",
+    match: null,
+    candidates: [],
+  });
+  const repeated = hit("Contacts", "C1", { Email: "juan@example.com" });
+  assertEquals(resolveMatch([repeated, repeated], input()).candidates.length, 1);
+});
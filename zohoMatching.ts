@@ -0,0 +1,297 @@
+// --- Types ---
+export type ZohoModule = "Leads" | "Contacts" | "Deals";
+
+/**
+ * How a record was found, from strongest to weakest. `name` is used for
+ * modules without a city field (Deals), where only the name can be compared.
+ */
+export type MatchStrategy = "email" | "phone" | "name_city" | "name";
+
+/**
+ * What is known about the caller.
+ */
+export type MatchInput = {
+  email: string | null;
+  /** Spellings the phone may be stored under (see phoneSearchVariants). */
+  phoneVariants: string[];
+  /** Full name as extracted, e.g. "Juan Pérez Mora". */
+  name: string | null;
+  city: string | null;
+};
+
+export type MatchQuery = {
+  module: ZohoModule;
+  strategy: MatchStrategy;
+  /** Zoho search criteria, at most MAX_CRITERIA_CONDITIONS conditions. */
+  criteria: string;
+};
+
+export type ZohoSearchHit = {
+  module: ZohoModule;
+  record: Record<string, unknown>;
+};
+
+export type MatchCandidate = {
+  module: ZohoModule;
+  id: string;
+  name: string | null;
+  score: number;
+  /** Strategies that matched, with the matching phone field, e.g. ["email", "phone:Mobile"]. */
+  matchedOn: string[];
+  modifiedTime: string | null;
+};
+
+export type MatchResult = {
+  /** "ambiguous" when several different records match equally well; no record is picked then. */
+  status: "matched" | "ambiguous" | "none";
+  match: MatchCandidate | null;
+  /** Best candidates first, at most MAX_REPORTED_CANDIDATES. */
+  candidates: MatchCandidate[];
+};
+
+type ModuleFields = {
+  email: string[];
+  phone: string[];
+  /** Fields that together hold the person's name. */
+  name: string[];
+  /** Field searched with starts_with, and whether it is searched by surname or full name. */
+  nameSearch: { field: string; by: "surname" | "fullName" };
+  city: string | null;
+};
+
+// --- Constants ---
+// Searched in this order; it also breaks ties between modules, since a returning
+// customer usually exists both as a converted Contact and as an old Lead.
+export const MATCH_MODULES: ZohoModule[] = ["Contacts", "Leads", "Deals"];
+// Strategies are tried in this order; weaker ones only when stronger ones found nothing.
+export const MATCH_STRATEGY_TIERS: MatchStrategy[][] = [["email"], ["phone"], ["name_city", "name"]];
+
+const MODULE_FIELDS: Record<ZohoModule, ModuleFields> = {
+  Contacts: {
+    email: ["Email", "Secondary_Email"],
+    phone: ["Phone", "Mobile", "Home_Phone", "Other_Phone"],
+    name: ["First_Name", "Last_Name"],
+    nameSearch: { field: "Last_Name", by: "surname" },
+    city: "Mailing_City",
+  },
+  Leads: {
+    email: ["Email", "Secondary_Email"],
+    phone: ["Phone", "Mobile"],
+    name: ["First_Name", "Last_Name"],
+    nameSearch: { field: "Last_Name", by: "surname" },
+    city: "City",
+  },
+  Deals: {
+    email: [],
+    phone: [],
+    name: ["Deal_Name"],
+    nameSearch: { field: "Deal_Name", by: "fullName" },
+    city: null,
+  },
+};
+
+const STRATEGY_SCORES: Record<MatchStrategy, number> = {
+  email: 100,
+  phone: 70,
+  name_city: 40,
+  name: 20,
+};
+
+// Zoho rejects search criteria with more than 10 conditions.
+const MAX_CRITERIA_CONDITIONS = 10;
+const MAX_REPORTED_CANDIDATES = 5;
+
+// --- Helper Functions ---
+
+/**
+ * Lowercases and strips accents and punctuation for name and city comparison.
+ */
+function simplify(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Escapes the characters that have a meaning in Zoho search criteria.
+ */
+function escapeCriteriaValue(value: string): string {
+  return value.replace(/[(),\\]/g, (character) => `\\${character}`);
+}
+
+/**
+ * ORs conditions together, split into criteria of at most MAX_CRITERIA_CONDITIONS conditions.
+ */
+function orCriteria(conditions: string[]): string[] {
+  const criteria: string[] = [];
+  for (let start = 0; start < conditions.length; start += MAX_CRITERIA_CONDITIONS) {
+    const chunk = conditions.slice(start, start + MAX_CRITERIA_CONDITIONS);
+    criteria.push(chunk.length > 1 ? `(${chunk.join("or")})` : chunk[0]);
+  }
+  return criteria;
+}
+
+/**
+ * Splits a full name into the given name and first surname ("Juan Pérez Mora" → Juan, Pérez).
+ */
+function splitName(name: string): { givenName: string | null; surname: string } {
+  const { firstName, lastName } = splitFullName(name);
+  return { givenName: firstName, surname: lastName.split(" ")[0] };
+}
+
+/**
+ * A record's field as non-blank text, or null.
+ */
+function fieldText(record: Record<string, unknown>, field: string): string | null {
+  const value = record[field];
+  return typeof value === "string" && value.trim() !== "" ? value : null;
+}
+
+/**
+ * Whether the record's name contains the caller's given name and first surname.
+ */
+function nameMatches(record: Record<string, unknown>, fields: string[], name: string): boolean {
+  const recordWords = simplify(fields.map((field) => fieldText(record, field) ?? "").join(" ")).split(" ");
+  const { givenName, surname } = splitName(name);
+  return [givenName, surname].every((word) => word === null || recordWords.includes(simplify(word)));
+}
+
+/**
+ * Scores a record against every strategy, whichever one found it.
+ */
+function scoreRecord(hit: ZohoSearchHit, input: MatchInput): MatchCandidate | null {
+  const fields = MODULE_FIELDS[hit.module];
+  const { record } = hit;
+  const matchedOn: string[] = [];
+  let score = 0;
+
+  const email = input.email?.trim().toLowerCase();
+  if (email && fields.email.some((field) => fieldText(record, field)?.trim().toLowerCase() === email)) {
+    matchedOn.push("email");
+    score += STRATEGY_SCORES.email;
+  }
+
+  const phoneDigits = new Set(input.phoneVariants.map((variant) => variant.replace(/\D/g, "")).filter(Boolean));
+  const phoneField = fields.phone.find((field) => {
+    const digits = fieldText(record, field)?.replace(/\D/g, "");
+    return !!digits && phoneDigits.has(digits);
+  });
+  if (phoneField) {
+    matchedOn.push(`phone:${phoneField}`);
+    score += STRATEGY_SCORES.phone;
+  }
+
+  if (input.name && nameMatches(record, fields.name, input.name)) {
+    if (!fields.city) {
+      matchedOn.push("name");
+      score += STRATEGY_SCORES.name;
+    } else if (input.city && simplify(fieldText(record, fields.city) ?? "") === simplify(input.city)) {
+      matchedOn.push("name_city");
+      score += STRATEGY_SCORES.name_city;
+    }
+  }
+
+  if (score === 0 || typeof record.id !== "string") {
+    return null;
+  }
+  const name = fields.name.map((field) => fieldText(record, field)).filter(Boolean).join(" ");
+  return {
+    module: hit.module,
+    id: record.id,
+    name: name || null,
+    score,
+    matchedOn,
+    modifiedTime: fieldText(record, "Modified_Time"),
+  };
+}
+
+/**
+ * Best score first, then module order, then most recently modified, then ID,
+ * so the same hits always resolve to the same record.
+ */
+function compareCandidates(a: MatchCandidate, b: MatchCandidate): number {
+  return (
+    b.score - a.score ||
+    MATCH_MODULES.indexOf(a.module) - MATCH_MODULES.indexOf(b.module) ||
+    (Date.parse(b.modifiedTime ?? "") || 0) - (Date.parse(a.modifiedTime ?? "") || 0) ||
+    a.id.localeCompare(b.id)
+  );
+}
+
+// --- Exported Functions ---
+
+/**
+ * Splits a full name into the Zoho First_Name and Last_Name ("Juan Pérez Mora" →
+ * Juan, Pérez Mora), so Last_Name starts with the first surname searched for.
+ * A single word is the last name.
+ */
+export function splitFullName(name: string): { firstName: string | null; lastName: string } {
+  const words = name.trim().split(/\s+/);
+  return words.length > 1 ? { firstName: words[0], lastName: words.slice(1).join(" ") } : { firstName: null, lastName: words[0] };
+}
+
+/**
+ * Builds the Zoho searches for one strategy across all modules. Modules without
+ * the needed fields, and strategies without input, produce no query.
+ * @param strategy The strategy to search with.
+ * @param input What is known about the caller.
+ */
+export function buildMatchQueries(strategy: MatchStrategy, input: MatchInput): MatchQuery[] {
+  const queries: MatchQuery[] = [];
+  for (const module of MATCH_MODULES) {
+    const fields = MODULE_FIELDS[module];
+    let criteria: string[] = [];
+    if (strategy === "email") {
+      const email = input.email ? escapeCriteriaValue(input.email.trim()) : null;
+      criteria = email ? orCriteria(fields.email.map((field) => `(${field}:equals:${email})`)) : [];
+    } else if (strategy === "phone") {
+      // Zoho matches phones exactly as stored, so try every spelling in every phone field.
+      criteria = orCriteria(
+        fields.phone.flatMap((field) => input.phoneVariants.map((variant) => `(${field}:equals:${escapeCriteriaValue(variant)})`))
+      );
+    } else if (input.name && (strategy === "name_city" ? fields.city && input.city : !fields.city)) {
+      const { field, by } = fields.nameSearch;
+      const value = escapeCriteriaValue(by === "surname" ? splitName(input.name).surname : input.name.trim());
+      const nameCondition = `(${field}:starts_with:${value})`;
+      criteria = [fields.city && input.city ? `(${nameCondition}and(${fields.city}:equals:${escapeCriteriaValue(input.city.trim())}))` : nameCondition];
+    }
+    queries.push(...criteria.map((entry) => ({ module, strategy, criteria: entry })));
+  }
+  return queries;
+}
+
+/**
+ * Scores search hits and picks the matching record.
+ *
+ * Ties between modules go to the module listed first in MATCH_MODULES. Several
+ * records of the same module tied for the best score are duplicates of one
+ * customer when they share the email, and the most recently modified one is
+ * picked; otherwise they may be different people (a shared family phone, a
+ * common surname) and the result is "ambiguous".
+ * @param hits Records returned by the searches; duplicates are ignored.
+ * @param input What is known about the caller.
+ */
+export function resolveMatch(hits: ZohoSearchHit[], input: MatchInput): MatchResult {
+  const byRecord = new Map<string, MatchCandidate>();
+  for (const hit of hits) {
+    const candidate = scoreRecord(hit, input);
+    if (candidate) {
+      byRecord.set(`${candidate.module}:${candidate.id}`, candidate);
+    }
+  }
+  const candidates = [...byRecord.values()].sort(compareCandidates);
+  if (candidates.length === 0) {
+    return { status: "none", match: null, candidates: [] };
+  }
+
+  const [best] = candidates;
+  const tied = candidates.filter((candidate) => candidate.module === best.module && candidate.score === best.score);
+  const reported = candidates.slice(0, MAX_REPORTED_CANDIDATES);
+  if (tied.length > 1 && !best.matchedOn.includes("email")) {
+    return { status: "ambiguous", match: null, candidates: reported };
+  }
+  return { status: "matched", match: best, candidates: reported };
+}